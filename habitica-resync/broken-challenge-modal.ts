@@ -0,0 +1,77 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import type { HabiticaTask } from './types';
+
+export type BrokenChallengeChoice = 'keep' | 'delete' | 'later';
+
+const BROKEN_REASONS: Record<string, string> = {
+	CHALLENGE_DELETED: 'The challenge was deleted',
+	CHALLENGE_CLOSED: 'The challenge ended',
+	CHALLENGE_TASK_NOT_FOUND: 'The task was removed from the challenge',
+	TASK_DELETED: 'The task was removed from the challenge',
+	UNSUBSCRIBED: 'You left the challenge'
+};
+
+/**
+ * Asks the user whether to keep or delete the tasks whose challenge broke (e.g. was deleted or ended).
+ * Kept tasks become the user's own; tasks left for later (e.g. when the modal is dismissed) stay as they are.
+ */
+export class BrokenChallengeModal extends Modal {
+	tasks: HabiticaTask[];
+	choices: Record<string, BrokenChallengeChoice> = {};
+	applied = false;
+	resolve: (choices: Record<string, BrokenChallengeChoice>) => void = () => {};
+
+	constructor(app: App, tasks: HabiticaTask[]) {
+		super(app);
+		this.tasks = tasks;
+		for (const task of tasks) {
+			this.choices[task.id] = 'keep';
+		}
+	}
+
+	/**
+	 * Opens the modal and waits for the user to choose.
+	 * @returns A promise that resolves to the choice for each task, keyed by task ID.
+	 */
+	prompt(): Promise<Record<string, BrokenChallengeChoice>> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Broken challenge tasks');
+		contentEl.createEl('p', { text: 'These tasks no longer follow their challenge. Keep them as your own tasks, or delete them.' });
+
+		for (const task of this.tasks) {
+			new Setting(contentEl)
+				.setName(task.text)
+				.setDesc(BROKEN_REASONS[task.challenge.broken || ''] || `Broken: ${task.challenge.broken}`)
+				.addDropdown(dropdown => dropdown
+					.addOption('keep', 'Keep')
+					.addOption('delete', 'Delete')
+					.addOption('later', 'Decide later')
+					.setValue(this.choices[task.id])
+					.onChange(value => {
+						this.choices[task.id] = value as BrokenChallengeChoice;
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Apply')
+				.setCta()
+				.onClick(() => {
+					this.applied = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.applied ? this.choices : {});
+	}
+}
@@ -0,0 +1,65 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import type { HabiticaTask } from './types';
+
+/**
+ * Lists the dailies left undone yesterday, so the ones actually done can be ticked before Habitica's cron
+ * counts them as missed; mirrors Habitica's "Record yesterday's activity" dialog.
+ * Dismissing the modal leaves the new day unstarted, to be checked in later.
+ */
+export class CheckInModal extends Modal {
+	dailies: HabiticaTask[];
+	checked = new Set<string>();
+	started = false;
+	resolve: (dailies: HabiticaTask[] | null) => void = () => {};
+
+	constructor(app: App, dailies: HabiticaTask[]) {
+		super(app);
+		this.dailies = dailies;
+	}
+
+	/**
+	 * Opens the modal and waits for the user to start their day.
+	 * @returns A promise that resolves to the dailies done yesterday, or null if the modal was dismissed.
+	 */
+	prompt(): Promise<HabiticaTask[] | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Record yesterday\'s activity');
+		contentEl.createEl('p', { text: 'Tick the dailies you did yesterday but didn\'t check off. The rest count as missed once your day starts.' });
+
+		for (const daily of this.dailies) {
+			new Setting(contentEl)
+				.setName(daily.text)
+				.addToggle(toggle => toggle
+					.setValue(false)
+					.onChange(value => {
+						if (value) {
+							this.checked.add(daily.id);
+						} else {
+							this.checked.delete(daily.id);
+						}
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Start my day')
+				.setCta()
+				.onClick(() => {
+					this.started = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.started ? this.dailies.filter(daily => this.checked.has(daily.id)) : null);
+	}
+}
@@ -0,0 +1,289 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HabiticaClientHost } from './client';
+import { HabiticaClient } from './client';
+import { FakeHabitica } from './fake-habitica';
+import type { HabiticaTransport } from './transport';
+
+const USER_ID = 'fake-user';
+const API_KEY = 'fake-key';
+
+const createHost = (): HabiticaClientHost => ({
+	settings: { apiBaseUrl: 'https://habitica.test/api', userId: USER_ID, apiKey: API_KEY, timeOut: 1000, rateLimitBuffer: 0 },
+	syncState: { tasks: {}, captured: {}, pendingOperations: [] },
+	saveSyncState: async () => {},
+	updateStatusBar: () => {},
+	schedulePendingReplay: () => {},
+	linkCreatedTodo: async () => {}
+});
+
+/**
+ * Wraps a transport to fail the first requests with a network error, as when the connection drops.
+ */
+const failingTransport = (transport: HabiticaTransport, failures: number) => {
+	const wrapper = {
+		calls: 0,
+		request: (url: string, init: RequestInit) => {
+			wrapper.calls++;
+			if (wrapper.calls <= failures) {
+				return Promise.reject(new TypeError('Failed to fetch'));
+			}
+			return transport.request(url, init);
+		}
+	};
+	return wrapper;
+};
+
+/**
+ * Wraps a transport to lose the responses to the first requests, as when the connection drops after Habitica got them.
+ */
+const lossyTransport = (transport: HabiticaTransport, losses: number) => {
+	const wrapper = {
+		calls: 0,
+		request: async (url: string, init: RequestInit) => {
+			wrapper.calls++;
+			const response = await transport.request(url, init);
+			if (wrapper.calls <= losses) {
+				throw new TypeError('Failed to fetch');
+			}
+			return response;
+		}
+	};
+	return wrapper;
+};
+
+beforeEach(() => {
+	vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('retrieveTasks', () => {
+	it('retrieves every task but completed todos', async () => {
+		const fake = new FakeHabitica([
+			{ type: 'habit', text: 'Drink water' },
+			{ type: 'todo', text: 'Buy milk' },
+			{ type: 'todo', text: 'Done already', completed: true }
+		], { userId: USER_ID, apiKey: API_KEY });
+		const client = new HabiticaClient(createHost(), fake);
+
+		const tasks = await client.retrieveTasks();
+
+		expect(tasks.map(task => task.text)).toEqual(['Drink water', 'Buy milk']);
+		expect(fake.requests).toEqual([{ method: 'GET', path: 'tasks/user' }]);
+	});
+
+	it('retrieves completed todos when asked for them', async () => {
+		const fake = new FakeHabitica([
+			{ type: 'todo', text: 'Buy milk' },
+			{ type: 'todo', text: 'Done already', completed: true }
+		], { userId: USER_ID, apiKey: API_KEY });
+		const client = new HabiticaClient(createHost(), fake);
+
+		const tasks = await client.retrieveTasks({ type: 'completedTodo' });
+
+		expect(tasks.map(task => task.text)).toEqual(['Done already']);
+	});
+
+	it('organizes all tasks by type', async () => {
+		const fake = new FakeHabitica([
+			{ type: 'daily', text: 'Stretch' },
+			{ type: 'reward', text: 'Nap', value: 10 }
+		], { userId: USER_ID, apiKey: API_KEY });
+		const client = new HabiticaClient(createHost(), fake);
+
+		const tasks = await client.retrieveAllTasks();
+
+		expect(tasks.daily.map(task => task.text)).toEqual(['Stretch']);
+		expect(tasks.reward.map(task => task.text)).toEqual(['Nap']);
+		expect(tasks.todo).toEqual([]);
+	});
+});
+
+describe('_handleResponse', () => {
+	const client = new HabiticaClient(createHost(), new FakeHabitica());
+	const headers = { 'x-ratelimit-remaining': '12', 'x-ratelimit-reset': new Date(2030, 0, 1).toString() };
+
+	it('returns the parsed response and tracks the rate limit', async () => {
+		const response = new Response(JSON.stringify({ success: true, data: ['task'] }), { status: 200, headers });
+
+		await expect(client._handleResponse(response)).resolves.toEqual({ success: true, data: ['task'] });
+		expect(client.remainingRequests).toBe(12);
+		expect(client.nextResetTime).toEqual(new Date(2030, 0, 1));
+	});
+
+	it('throws on HTTP errors', async () => {
+		const response = new Response(JSON.stringify({ success: false }), { status: 404, statusText: 'Not Found', headers });
+
+		await expect(client._handleResponse(response)).rejects.toThrow('status: 404');
+	});
+
+	it('throws when Habitica reports a failure', async () => {
+		const response = new Response(JSON.stringify({ success: false, message: 'Nope' }), { status: 200, headers });
+
+		await expect(client._handleResponse(response)).rejects.toThrow('Habitica API error');
+	});
+
+	it('rejects requests with the wrong credentials', async () => {
+		const fake = new FakeHabitica([], { userId: 'someone-else', apiKey: API_KEY });
+
+		await expect(new HabiticaClient(createHost(), fake).retrieveTasks()).rejects.toThrow('status: 401');
+	});
+});
+
+describe('rate limiting', () => {
+	it('waits for the rate limit to reset once no requests are left', async () => {
+		vi.useFakeTimers();
+		const fake = new FakeHabitica([{ type: 'todo', text: 'Buy milk' }], { userId: USER_ID, apiKey: API_KEY, rateLimit: 1, rateLimitWindow: 60000 });
+		const host = createHost();
+		// Habitica's reset time only has second precision
+		host.settings.rateLimitBuffer = 1000;
+		const client = new HabiticaClient(host, fake);
+		await client.retrieveTasks();
+		expect(client.remainingRequests).toBe(0);
+
+		let settled = false;
+		const second = client.retrieveTasks().then(tasks => {
+			settled = true;
+			return tasks;
+		});
+		await vi.advanceTimersByTimeAsync(30000);
+		expect(settled).toBe(false);
+		expect(fake.requests).toHaveLength(1);
+
+		await vi.advanceTimersByTimeAsync(32000);
+		await expect(second).resolves.toHaveLength(1);
+		// Waiting means Habitica never had to refuse a request
+		expect(fake.requests).toHaveLength(2);
+	});
+
+	it('retries requests refused with a 429 after the Retry-After delay', async () => {
+		vi.useFakeTimers();
+		const fake = new FakeHabitica([{ type: 'todo', text: 'Buy milk' }], { userId: USER_ID, apiKey: API_KEY, rateLimit: 1, rateLimitWindow: 5000 });
+		const client = new HabiticaClient(createHost(), fake);
+		fake.remainingRequests = 0;  // Used up by another client
+
+		const tasks = client.retrieveTasks();
+		await vi.advanceTimersByTimeAsync(6000);
+
+		await expect(tasks).resolves.toHaveLength(1);
+		expect(fake.requests).toHaveLength(2);
+	});
+});
+
+describe('network errors', () => {
+	it('retries reads', async () => {
+		vi.useFakeTimers();
+		const fake = new FakeHabitica([{ type: 'todo', text: 'Buy milk' }], { userId: USER_ID, apiKey: API_KEY });
+		const transport = failingTransport(fake, 2);
+		const client = new HabiticaClient(createHost(), transport);
+
+		const tasks = client.retrieveTasks();
+		await vi.advanceTimersByTimeAsync(10000);
+
+		await expect(tasks).resolves.toHaveLength(1);
+		expect(transport.calls).toBe(3);
+	});
+
+	it('leaves writes pending rather than sending them twice', async () => {
+		const fake = new FakeHabitica([], { userId: USER_ID, apiKey: API_KEY });
+		const transport = failingTransport(fake, 1);
+		const host = createHost();
+		const client = new HabiticaClient(host, transport);
+
+		await expect(client.createTask({ type: 'todo', text: 'Buy milk' })).resolves.toBeNull();
+		expect(transport.calls).toBe(1);
+		expect(host.syncState.pendingOperations.map(operation => operation.description)).toEqual(['Create todo "Buy milk"']);
+
+		await expect(client.replayPendingOperations()).resolves.toBe(true);
+		expect(fake.tasks.map(task => task.text)).toEqual(['Buy milk']);
+		expect(host.syncState.pendingOperations).toEqual([]);
+	});
+});
+
+describe('lost responses', () => {
+	it('looks up a create whose response was lost rather than creating the task twice', async () => {
+		const fake = new FakeHabitica([], { userId: USER_ID, apiKey: API_KEY });
+		const host = createHost();
+		const client = new HabiticaClient(host, lossyTransport(fake, 1));
+
+		await expect(client.createTask({ type: 'todo', text: 'Buy milk' })).resolves.toBeNull();
+		expect(host.syncState.pendingOperations[0].uncertain).toBe(true);
+
+		await expect(client.replayPendingOperations()).resolves.toBe(true);
+		expect(fake.tasks.map(task => task.text)).toEqual(['Buy milk']);
+		expect(fake.requests.map(request => request.method)).toEqual(['POST', 'GET']);
+		expect(host.syncState.pendingOperations).toEqual([]);
+	});
+
+	it('drops a purchase whose response was lost rather than buying twice', async () => {
+		const fake = new FakeHabitica([{ id: 'reward-1', type: 'reward', text: 'Nap', value: 10 }], { userId: USER_ID, apiKey: API_KEY });
+		fake.user.stats.gp = 25;
+		const host = createHost();
+		const client = new HabiticaClient(host, lossyTransport(fake, 1));
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await expect(client.scoreTask('reward-1', 'up')).resolves.toBeNull();
+		await client.replayPendingOperations();
+
+		expect(fake.user.stats.gp).toBe(15);
+		expect(host.syncState.pendingOperations).toEqual([]);
+	});
+
+	it('leaves writes answered with a 5xx pending rather than retrying them', async () => {
+		const transport = {
+			calls: 0,
+			request: async () => {
+				transport.calls++;
+				return new Response('', { status: 503 });
+			}
+		};
+		const client = new HabiticaClient(createHost(), transport);
+
+		await expect(client.scoreTask('task-1', 'up')).resolves.toBeNull();
+		expect(transport.calls).toBe(1);
+	});
+});
+
+describe('pending operations', () => {
+	it('sends writes left pending before a restart ahead of new ones', async () => {
+		const fake = new FakeHabitica([], { userId: USER_ID, apiKey: API_KEY });
+		const host = createHost();
+		host.syncState.pendingOperations.push({
+			id: 'earlier',
+			queuedAt: new Date().toISOString(),
+			method: 'POST',
+			endpoint: 'tasks/user',
+			body: { type: 'todo', text: 'Written offline' },
+			description: 'Create todo "Written offline"'
+		});
+		const client = new HabiticaClient(host, fake);
+
+		const created = await client.createTask({ type: 'todo', text: 'Written online' });
+
+		expect(created?.text).toBe('Written online');
+		expect(fake.tasks.map(task => task.text)).toEqual(['Written offline', 'Written online']);
+		expect(host.syncState.pendingOperations).toEqual([]);
+	});
+
+	it('sends updates folded into a pending update right away', async () => {
+		const fake = new FakeHabitica([{ id: 'task-1', type: 'todo', text: 'Buy milk' }], { userId: USER_ID, apiKey: API_KEY });
+		const host = createHost();
+		host.syncState.pendingOperations.push({
+			id: 'earlier',
+			queuedAt: new Date().toISOString(),
+			method: 'PUT',
+			endpoint: 'tasks/task-1',
+			body: { notes: 'Oat' },
+			description: 'Update "Buy milk"'
+		});
+		const client = new HabiticaClient(host, fake);
+
+		await client.updateTask('task-1', { priority: 2 });
+
+		expect(fake.tasks[0]).toMatchObject({ notes: 'Oat', priority: 2 });
+		expect(host.syncState.pendingOperations).toEqual([]);
+	});
+});
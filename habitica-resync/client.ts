@@ -0,0 +1,847 @@
+import type { HabiticaTasksSettings, HabiticaSyncState, HabiticaTaskRequest, HabiticaTask, HabiticaChecklistItem, HabiticaResponse, HabiticaTaskMap, ScoreDirection, HabiticaScoreResult, HabiticaUser, HabiticaTag, HabiticaGroup, PendingOperation, PendingLink } from './types';
+import { TaskTypeQueryValues } from './types';
+import { organizeHabiticaTasksByType, log } from './util';
+import type { HabiticaTransport } from './transport';
+import { fetchTransport } from './transport';
+
+export const HABITICA_SIDE_PLUGIN_ID = 'habitica-x-obsidian-task-integration';
+export const HABITICA_API_URL = 'https://habitica.com/api';
+const DEVELOPER_USER_ID = 'a8e40d27-c872-493f-acf2-9fe75c56ac0c'  // Itssa me, GammaThought!
+const MAX_REQUEST_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000; // Doubled on every retry
+const RETRY_MAX_DELAY = 60000;
+
+/**
+ * What the client needs from the plugin: the settings it connects with, the sync state it keeps the pending operations in,
+ * and hooks to save that state and show it. Kept this small so the client can be built without Obsidian, e.g. in tests.
+ */
+export interface HabiticaClientHost {
+	settings: Pick<HabiticaTasksSettings, 'apiBaseUrl' | 'userId' | 'apiKey' | 'timeOut' | 'rateLimitBuffer'>;
+	syncState: HabiticaSyncState;
+	saveSyncState(): Promise<void>;
+	updateStatusBar(): void;
+	schedulePendingReplay(): void;
+	linkCreatedTodo(link: PendingLink, task: HabiticaTask): Promise<void>;
+}
+
+/**
+ * Interfaces with the Habitica API while respecting rate limits.
+ */
+export class HabiticaClient {
+	host: HabiticaClientHost;
+	transport: HabiticaTransport;
+	remainingRequests: number = 30;
+	nextResetTime: Date | null = null;
+	// Tail of the request queue; every request waits for the previous one to settle
+	queue: Promise<unknown> = Promise.resolve();
+	// Aborted to cancel every queued and in-flight request
+	cancelController: AbortController = new AbortController();
+	// Set when a write couldn't be sent; later writes wait behind it in the pending operations until they're replayed
+	offline = false;
+	replaying = false;
+	inFlight = new Set<string>(); // IDs of the pending operations being sent
+	constructor(host: HabiticaClientHost, transport: HabiticaTransport = fetchTransport) {
+		// Initialize with settings
+		this.host = host;
+		this.transport = transport;
+	}
+
+	settings() {
+		return this.host.settings;
+	}
+
+	/**
+	 * Serves as a local router for building Habitica API URLs.
+	 * @param endpoint The API endpoint to access.
+	 * @param version The API version to use.
+	 * @param queryParams The query parameters to include in the URL.
+	 * @returns The constructed API URL.
+	 */
+	buildApiUrl(endpoint: string, version: number = 3, queryParams: Record<string, string> = {}): string {
+		const queryString = new URLSearchParams(queryParams).toString();
+		const baseUrl = (this.settings().apiBaseUrl || HABITICA_API_URL).replace(/\/+$/, '');
+		return `${baseUrl}/v${version}/${endpoint}?${queryString}`;
+	}
+
+	_defaultHeaders() {
+		return {
+			'x-client': `${DEVELOPER_USER_ID}-${HABITICA_SIDE_PLUGIN_ID}`,
+			'x-api-user': `${this.settings().userId}`,
+			'x-api-key': `${this.settings().apiKey}`
+		};
+	}
+	_defaultJSONHeaders() {
+		return {
+			...this._defaultHeaders(),
+			'Content-Type': 'application/json'
+		};
+	}
+
+	/**
+	 * Queues the provided request, calling it once every earlier request has settled and the rate limit allows it.
+	 * If there are no remaining requests, it waits until the next reset time plus a buffer before calling the function.
+	 * Each attempt is aborted after the configured timeout, and 429 responses are retried with exponential backoff.
+	 * 5xx responses, timeouts and network errors are only retried for reads: a write may have gone through before the failure,
+	 * so retrying it blindly could create a task twice or spend gold twice. Failed writes are left to the pending operations instead,
+	 * which check whether they went through before sending them again.
+	 * @param fn The function performing the request; it must pass the given signal on to the transport.
+	 * @param idempotent Whether sending the request twice does no harm, i.e. whether it's a GET.
+	 * @returns A promise that resolves to the handled response.
+	 * @throws An error if the request fails after all retries, or if it was cancelled.
+	 */
+	async callWhenRateLimitAllows<T = HabiticaTask[] | HabiticaTask>(fn: (signal: AbortSignal) => Promise<Response>, idempotent = true): Promise<HabiticaResponse<T>> {
+		// Requests queued before a `cancelAll` stay cancelled
+		const cancelSignal = this.cancelController.signal;
+		const result = this.queue.then(() => this._executeRequest<T>(fn, cancelSignal, idempotent));
+		// Keep the queue going even if this request fails
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	async _executeRequest<T>(fn: (signal: AbortSignal) => Promise<Response>, cancelSignal: AbortSignal, idempotent: boolean): Promise<HabiticaResponse<T>> {
+		for (let attempt = 0; ; attempt++) {
+			if (cancelSignal.aborted) {
+				throw new Error('Habitica request cancelled');
+			}
+			await this._waitForRateLimit(cancelSignal);
+			const controller = new AbortController();
+			const cancel = () => controller.abort();
+			cancelSignal.addEventListener('abort', cancel);
+			let timedOut = false;
+			const timeout = setTimeout(() => {
+				timedOut = true;
+				controller.abort();
+			}, this.settings().timeOut);
+			try {
+				let response: Response;
+				try {
+					response = await fn(controller.signal);
+				} catch (error) {
+					// Timeouts and network errors of reads are retried, cancellations aren't
+					if (cancelSignal.aborted) {
+						throw error;
+					}
+					if (!idempotent || attempt >= MAX_REQUEST_RETRIES) {
+						throw timedOut ? new Error(`Habitica request timed out after ${this.settings().timeOut}ms`) : error;
+					}
+					const delay = this._retryDelay(attempt);
+					log(`callWhenRateLimitAllows: Request failed (${error}), retrying in ${delay}ms.`);
+					await this._sleep(delay, cancelSignal);
+					continue;
+				}
+				if ((response.status === 429 || (idempotent && response.status >= 500)) && attempt < MAX_REQUEST_RETRIES) {
+					this._updateRateLimit(response);
+					const delay = this._retryDelay(attempt, response);
+					log(`callWhenRateLimitAllows: Request failed with status ${response.status}, retrying in ${delay}ms.`);
+					await this._sleep(delay, cancelSignal);
+					continue;
+				}
+				return await this._handleResponse<T>(response);
+			} finally {
+				clearTimeout(timeout);
+				cancelSignal.removeEventListener('abort', cancel);
+			}
+		}
+	}
+
+	/**
+	 * Waits until the next reset time plus a buffer if there are no remaining requests.
+	 */
+	async _waitForRateLimit(cancelSignal: AbortSignal) {
+		if (this.remainingRequests > 0) {
+			return;
+		}
+		if (this.nextResetTime && this.nextResetTime > new Date()) {
+			log(`callWhenRateLimitAllows: No remaining requests, waiting until reset time at ${this.nextResetTime.toISOString()} (${this.nextResetTime}).`);
+			const waitTime = this.nextResetTime.getTime() - new Date().getTime();
+			await this._sleep(waitTime + this.settings().rateLimitBuffer, cancelSignal);
+			return;
+		}
+		// If we don't have a reset time, just call the function (shouldn't happen, except maybe on first call)
+		log("!!! callWhenRateLimitAllows: No reset time available, calling function immediately.");
+	}
+
+	/**
+	 * Determines how long to wait before retrying a failed request.
+	 * Honours the `Retry-After` header, then the rate limit reset time for 429s, then falls back to exponential backoff.
+	 * @param attempt The number of the failed attempt, starting at 0.
+	 * @param response The failed response, if any.
+	 * @returns The delay in milliseconds.
+	 */
+	_retryDelay(attempt: number, response?: Response): number {
+		const retryAfter = response?.headers.get('retry-after');
+		if (retryAfter) {
+			const seconds = parseInt(retryAfter);
+			const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - new Date().getTime() : seconds * 1000;
+			if (!isNaN(delay)) {
+				return Math.max(0, delay);
+			}
+		}
+		if (response?.status === 429 && this.nextResetTime && this.nextResetTime > new Date()) {
+			return this.nextResetTime.getTime() - new Date().getTime() + this.settings().rateLimitBuffer;
+		}
+		return Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+	}
+
+	/**
+	 * Resolves after the given delay, or rejects early if the given signal is aborted.
+	 */
+	_sleep(ms: number, signal: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal.aborted) {
+				reject(new Error('Habitica request cancelled'));
+				return;
+			}
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new Error('Habitica request cancelled'));
+			};
+			const timer = setTimeout(() => {
+				signal.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			signal.addEventListener('abort', onAbort, { once: true });
+		});
+	}
+
+	/**
+	 * Cancels every queued, waiting and in-flight request, e.g. when the plugin unloads.
+	 * Requests made afterwards are unaffected.
+	 */
+	cancelAll() {
+		this.cancelController.abort();
+		this.cancelController = new AbortController();
+		this.queue = Promise.resolve();
+	}
+
+	/**
+	 * The writes not yet confirmed by Habitica, in order; stored in the plugin data so they survive restarts.
+	 */
+	pendingOperations(): PendingOperation[] {
+		return this.host.syncState.pendingOperations;
+	}
+
+	/**
+	 * Records a write in the pending operations, then sends it, after any earlier writes still pending (e.g. from before a restart),
+	 * so writes reach Habitica in the order they were made. Nothing is sent while Habitica can't be reached.
+	 * Writes that can't be sent (network errors, timeouts, 5xx responses, exhausted retries, cancellation) stay pending
+	 * for `replayPendingOperations`, which first checks whether those that may have reached Habitica did; writes Habitica refuses are dropped.
+	 * @param operation The write to make.
+	 * @returns A promise that resolves to the response data, or null if the write was left pending (or folded into a pending one).
+	 * @throws An error if Habitica refused the write.
+	 */
+	async callDurably<T>(operation: Omit<PendingOperation, 'id' | 'queuedAt'>): Promise<T | null> {
+		const recorded = this._recordOperation(operation);
+		await this.host.saveSyncState();
+		this.host.updateStatusBar();
+		if (this.offline || this.replaying) {
+			return null;
+		}
+		if (!recorded) {
+			// Folded into a pending write, which is sent along with any before it
+			await this._replay();
+			return null;
+		}
+		if (this.pendingOperations().some(other => other !== recorded && !this.inFlight.has(other.id))) {
+			const { data } = await this._replay(recorded);
+			return (data as T | undefined) ?? null;
+		}
+		const sent = await this._sendOperation<T>(recorded);
+		return sent ? sent.data : null;
+	}
+
+	/**
+	 * Adds a write to the pending operations, folding it into the writes still waiting for the same task:
+	 * it cancels out the write it undoes, updates are merged into a waiting update of the same thing,
+	 * and deleting something drops the waiting writes to it (cancelling out if it was waiting to be added).
+	 * Writes that may already have reached Habitica aren't folded into, as whatever they did stands.
+	 * @returns The recorded operation, or null if it was folded into a waiting one.
+	 */
+	_recordOperation(operation: Omit<PendingOperation, 'id' | 'queuedAt'>): PendingOperation | null {
+		const queue = this.pendingOperations();
+		const waiting = queue.filter(other => !this.inFlight.has(other.id) && !other.uncertain);
+		const undone = operation.undoes ? waiting.reverse().find(other => `${other.method} ${other.endpoint}` === operation.undoes) : undefined;
+		if (undone) {
+			queue.splice(queue.indexOf(undone), 1);
+			return null;
+		}
+		const earlierUpdate = operation.method === 'PUT'
+			? waiting.find(other => other.method === 'PUT' && other.endpoint === operation.endpoint)
+			: undefined;
+		if (earlierUpdate) {
+			earlierUpdate.body = { ...earlierUpdate.body, ...operation.body };
+			earlierUpdate.description = operation.description;
+			return null;
+		}
+		if (operation.method === 'DELETE') {
+			const dropped = waiting.filter(other => other.endpoint === operation.endpoint || other.endpoint.startsWith(`${operation.endpoint}/`));
+			for (const other of dropped) {
+				queue.splice(queue.indexOf(other), 1);
+			}
+			if (dropped.some(other => other.method === 'POST' && other.endpoint === operation.endpoint)) {
+				return null;
+			}
+		}
+		const recorded: PendingOperation = {
+			...operation,
+			id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			queuedAt: new Date().toISOString()
+		};
+		queue.push(recorded);
+		return recorded;
+	}
+
+	/**
+	 * Sends a pending operation, removing it from the pending operations unless it couldn't be sent.
+	 * If an earlier attempt may have reached Habitica, it's only sent again once Habitica shows it didn't.
+	 * @returns A promise that resolves to the response data, or null if the operation is still pending.
+	 * @throws An error if Habitica refused the write, or if there's no telling whether an earlier attempt went through.
+	 */
+	async _sendOperation<T>(operation: PendingOperation): Promise<{ data: T } | null> {
+		const url = this.buildApiUrl(operation.endpoint, 3, operation.query);
+		const headers = this._defaultJSONHeaders();
+		const body = operation.body ? JSON.stringify(operation.body) : undefined;
+		let attempted = false;
+		let status = 0;
+		this.inFlight.add(operation.id);
+		try {
+			if (operation.uncertain) {
+				let landed: { landed: boolean, data?: unknown } | null;
+				try {
+					landed = await this._findLandedWrite(operation);
+				} catch (error) {
+					await this._keepPending(operation, error);
+					return null;
+				}
+				if (!landed) {
+					// Sending it again could repeat it, e.g. buy a reward twice
+					await this._removeOperation(operation);
+					throw new Error(`Couldn't tell whether "${operation.description}" reached Habitica, so it wasn't sent again`);
+				}
+				if (landed.landed) {
+					await this._removeOperation(operation);
+					return { data: landed.data as T };
+				}
+			}
+			try {
+				const response = await this.callWhenRateLimitAllows<T>(signal => {
+					attempted = true;
+					status = 0;
+					return this.transport.request(url, { method: operation.method, headers, body, signal }).then(response => {
+						status = response.status;
+						return response;
+					});
+				}, false);
+				await this._removeOperation(operation);
+				return { data: response.data };
+			} catch (error) {
+				if (status >= 400 && status < 500 && status !== 429) {
+					// Habitica refused the write; sending it again wouldn't change that
+					await this._removeOperation(operation);
+					throw error;
+				}
+				if (attempted && (status === 0 || status >= 500)) {
+					// The write may have gone through without its response making it back
+					operation.uncertain = true;
+				}
+				await this._keepPending(operation, error);
+				return null;
+			}
+		} finally {
+			this.inFlight.delete(operation.id);
+		}
+	}
+
+	/**
+	 * Leaves an operation that couldn't be sent pending, and goes offline until the next replay.
+	 */
+	async _keepPending(operation: PendingOperation, error: unknown) {
+		log(`callDurably: Couldn't send "${operation.description}" (${error}), keeping it pending.`);
+		this.offline = true;
+		await this.host.saveSyncState();
+		this.host.updateStatusBar();
+		this.host.schedulePendingReplay();
+	}
+
+	/**
+	 * Checks whether a write that may have reached Habitica, without its response making it back, went through.
+	 * Creates are looked up by the ID they were sent with, completions of todos and dailies by the task's state,
+	 * and checklist additions by the item's text. Updates, deletions and writes Habitica refuses to repeat
+	 * (e.g. adding a tag the task has) can simply be sent again, so they count as not gone through.
+	 * @returns A promise that resolves to whether the write went through, with the data to take as its response if so,
+	 * or null if there's no telling, e.g. for scoring a habit or buying a reward.
+	 */
+	async _findLandedWrite(operation: PendingOperation): Promise<{ landed: boolean, data?: unknown } | null> {
+		const segments = operation.endpoint.split('/');
+		const body = (operation.body ?? {}) as Partial<HabiticaTask & HabiticaChecklistItem>;
+		if (operation.method !== 'POST' || segments[0] !== 'tasks') {
+			return { landed: false };
+		}
+		if (operation.endpoint === 'tasks/user') {
+			if (!body.id) {
+				return null;
+			}
+			const task = await this._retrieveTaskIfExists(body.id);
+			return { landed: !!task, data: task };
+		}
+		if (segments.length === 4 && segments[2] === 'score') {
+			// Only scores that toggle completion (and so can be undone) leave a trace to check
+			if (!operation.undoes) {
+				return null;
+			}
+			const task = await this._retrieveTaskIfExists(segments[1]);
+			return { landed: !!task && task.completed === (segments[3] === 'up') };
+		}
+		if (segments.length === 3 && segments[2] === 'checklist') {
+			const task = await this._retrieveTaskIfExists(segments[1]);
+			const landed = !!task?.checklist?.some(item => item.text === body.text);
+			return { landed, data: task };
+		}
+		if (segments.length === 5 && segments[4] === 'score') {
+			return null;
+		}
+		return { landed: false };
+	}
+
+	/**
+	 * Retrieves a single task from Habitica, if it exists.
+	 * @returns A promise that resolves to the task, or null if Habitica doesn't know it.
+	 */
+	async _retrieveTaskIfExists(taskId: string): Promise<HabiticaTask | null> {
+		const url = this.buildApiUrl(`tasks/${taskId}`, 3);
+		const headers = this._defaultJSONHeaders();
+		let status = 0;
+		try {
+			const response = await this.callWhenRateLimitAllows<HabiticaTask>(signal =>
+				this.transport.request(url, { method: 'GET', headers, signal }).then(response => {
+					status = response.status;
+					return response;
+				})
+			);
+			return response.data;
+		} catch (error) {
+			if (status === 404) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Drops a pending operation without sending it, e.g. when the user gives up on a change.
+	 */
+	async discardPendingOperation(operation: PendingOperation) {
+		await this._removeOperation(operation);
+		this.host.updateStatusBar();
+	}
+
+	async _removeOperation(operation: PendingOperation) {
+		const queue = this.pendingOperations();
+		if (queue.includes(operation)) {
+			queue.splice(queue.indexOf(operation), 1);
+		}
+		await this.host.saveSyncState();
+	}
+
+	/**
+	 * Sends the pending operations in order, e.g. once back online or after a restart.
+	 * Stops at the first write that still can't be sent; writes Habitica refuses are dropped.
+	 * @returns A promise that resolves to whether every pending operation was sent.
+	 */
+	async replayPendingOperations(): Promise<boolean> {
+		return (await this._replay()).sent;
+	}
+
+	/**
+	 * Sends the pending operations in order, stopping after the given one if any.
+	 * @param until The operation to stop after; the caller takes its response, and its refusal, rather than the log.
+	 * @returns A promise that resolves to whether every operation up to the given one was sent, and the given one's response data.
+	 * @throws An error if Habitica refused the given operation.
+	 */
+	async _replay(until?: PendingOperation): Promise<{ sent: boolean, data?: unknown }> {
+		if (this.replaying) {
+			return { sent: false };
+		}
+		this.replaying = true;
+		this.host.updateStatusBar();
+		try {
+			for (;;) {
+				const operation = this.pendingOperations().find(other => !this.inFlight.has(other.id));
+				if (!operation) {
+					break;
+				}
+				let sent: { data: unknown } | null;
+				try {
+					sent = await this._sendOperation(operation);
+				} catch (error) {
+					if (operation === until) {
+						throw error;
+					}
+					console.error(`Dropped the pending change "${operation.description}":`, error);
+					continue;
+				}
+				if (!sent) {
+					return { sent: false };
+				}
+				if (operation === until) {
+					return { sent: true, data: sent.data };
+				}
+				if (operation.link) {
+					await this.host.linkCreatedTodo(operation.link, sent.data as HabiticaTask);
+				}
+			}
+			this.offline = false;
+			return { sent: true };
+		} finally {
+			this.replaying = false;
+			this.host.updateStatusBar();
+		}
+	}
+
+	/**
+	 * Names a task for the pending changes view, by its text as last synced if known.
+	 */
+	_describeTask(taskId: string): string {
+		const text = this.host.syncState.tasks[taskId]?.text;
+		return text ? `"${text}"` : `task ${taskId}`;
+	}
+
+	_updateRateLimit(response: Response) {
+		this.remainingRequests = parseInt(response.headers.get('x-ratelimit-remaining') || this.remainingRequests?.toString() || '30');
+		this.nextResetTime = new Date(response.headers.get('x-ratelimit-reset') || this.nextResetTime?.toISOString() || new Date().toISOString());
+		log(`Rate Limit - Remaining: ${this.remainingRequests}, Next Reset Time: ${this.nextResetTime}`);
+		this.host.updateStatusBar();
+	}
+
+	/**
+	 * Handles the response from the Habitica API.
+	 * @param response The response from the API.
+	 * @returns A promise that resolves to the parsed HabiticaResponse.
+	 * @throws An error if the response is not ok or if the API indicates failure.
+	 */
+	async _handleResponse<T = HabiticaTask[] | HabiticaTask>(response: Response): Promise<HabiticaResponse<T>> {
+		// Check response headers for rate limiting info
+		this._updateRateLimit(response);
+		// Check if response is ok & successful
+		if (!response.ok) {
+			throw new Error(`HTTP error (Is Habitica API down?); status: ${response.status}, statusText: ${response.statusText}`);
+		}
+		// Sneak peek at the response JSON
+		const data = await response.json() as HabiticaResponse<T>;
+		if (!data.success) {
+			throw new Error(`Habitica API error (Was there a Habitica API update?); response: ${JSON.stringify(data)}`);
+		}
+		return data;
+	}
+
+	/**
+	 * Retrieves tasks from Habitica API based on the provided context.
+	 * If no context is provided, retrieves all tasks.
+	 * If the request fails, notifies the user and returns an empty array.
+	 * @param ctx The context for retrieving tasks, including type and due date.
+	 * @returns A promise that resolves to an array of HabiticaTask objects.
+	 */
+	async retrieveTasks(ctx: HabiticaTaskRequest = {}): Promise<HabiticaTask[]> {
+		// Fetch
+		// Only include keys for non-null/defined parameters
+		const queryParams: Record<string, string> = {
+			...(ctx.type ? { type: TaskTypeQueryValues[ctx.type] } : {}),
+			...(ctx.dueDate ? { dueDate: ctx.dueDate.toISOString() } : {})
+		};
+		const url = this.buildApiUrl('tasks/user', 3, queryParams);
+		const headers = this._defaultJSONHeaders();
+		log(`Fetching tasks from Habitica: ${url}`);
+
+		// First retrieve data, then parse response
+		return this.callWhenRateLimitAllows(signal =>
+			this.transport.request(url, { method: 'GET', headers, signal })
+		).then((data: HabiticaResponse) => {
+			// Presume failure is caught by _handleResponse
+			return data.data as HabiticaTask[];
+		});
+	}
+
+	/**
+	 * Retrieves a single task from Habitica.
+	 * @param taskId The ID of the task to retrieve.
+	 * @returns A promise that resolves to the HabiticaTask.
+	 */
+	async retrieveTask(taskId: string): Promise<HabiticaTask> {
+		const url = this.buildApiUrl(`tasks/${taskId}`, 3);
+		const headers = this._defaultJSONHeaders();
+		log(`Fetching task from Habitica: ${url}`);
+
+		return this.callWhenRateLimitAllows(signal =>
+			this.transport.request(url, { method: 'GET', headers, signal })
+		).then((data: HabiticaResponse) => {
+			// Presume failure is caught by _handleResponse
+			return data.data as HabiticaTask;
+		});
+	}
+
+	/**
+	 * Utility method to retrieve all tasks organized by type.
+	 * @returns A promise that resolves to a map of tasks organized by type.
+	 */
+	async retrieveAllTasks(): Promise<HabiticaTaskMap> {
+		// Retrieve all tasks of all types
+		const tasks = await this.retrieveTasks();
+		return organizeHabiticaTasksByType(tasks);
+	}
+
+	/**
+	 * Scores a task up or down, e.g. completing a todo or daily (up) or undoing its completion (down).
+	 * Rewards are bought by scoring them up.
+	 * @param taskId The ID of the task to score.
+	 * @param direction The direction to score the task in.
+	 * @returns A promise that resolves to the user's stats after scoring, or null if the score is pending.
+	 */
+	async scoreTask(taskId: string, direction: ScoreDirection): Promise<HabiticaScoreResult | null> {
+		log(`Scoring task ${direction} in Habitica: ${taskId}`);
+		// Completing a todo or daily and undoing it cancel out; habits and rewards add up
+		const type = this.host.syncState.tasks[taskId]?.type ?? (this.host.syncState.captured[taskId] ? 'todo' : undefined);
+		const toggles = type === 'todo' || type === 'daily';
+		return this.callDurably<HabiticaScoreResult>({
+			method: 'POST',
+			endpoint: `tasks/${taskId}/score/${direction}`,
+			description: `Score ${this._describeTask(taskId)} ${direction}`,
+			...(toggles ? { undoes: `POST tasks/${taskId}/score/${direction === 'up' ? 'down' : 'up'}` } : {})
+		});
+	}
+
+	/**
+	 * Retrieves the user's profile name, stats (HP, MP, XP, gold, level and class), day preferences
+	 * and whether cron is waiting for them.
+	 * @returns A promise that resolves to the HabiticaUser.
+	 */
+	async retrieveUser(): Promise<HabiticaUser> {
+		const url = this.buildApiUrl('user', 3, { userFields: 'stats,profile.name,preferences.dayStart,preferences.timezoneOffset,needsCron' });
+		const headers = this._defaultJSONHeaders();
+		log(`Fetching user from Habitica: ${url}`);
+
+		return this.callWhenRateLimitAllows<HabiticaUser>(signal =>
+			this.transport.request(url, { method: 'GET', headers, signal })
+		).then((data: HabiticaResponse<HabiticaUser>) => {
+			// Presume failure is caught by _handleResponse
+			return data.data;
+		});
+	}
+
+	/**
+	 * Starts the user's new Habitica day, once yesterday's dailies are checked in.
+	 * Queued like other writes, so it's only sent after the dailies are scored.
+	 * @returns A promise that resolves once cron has run, or is pending.
+	 */
+	async runCron(): Promise<void> {
+		log('Running cron in Habitica');
+		await this.callDurably({
+			method: 'POST',
+			endpoint: 'cron',
+			description: 'Start a new Habitica day'
+		});
+	}
+
+	/**
+	 * Toggles the completion of a checklist item.
+	 * @param taskId The ID of the task the checklist item belongs to.
+	 * @param itemId The ID of the checklist item.
+	 * @returns A promise that resolves once the checklist item has been scored, or its score is pending.
+	 */
+	async scoreChecklistItem(taskId: string, itemId: string): Promise<void> {
+		log(`Scoring checklist item in Habitica: ${taskId}/${itemId}`);
+		// Toggling an item twice cancels out
+		const endpoint = `tasks/${taskId}/checklist/${itemId}/score`;
+		await this.callDurably({ method: 'POST', endpoint, undoes: `POST ${endpoint}`, description: `Tick a checklist item of ${this._describeTask(taskId)}` });
+	}
+
+	/**
+	 * Updates a task, e.g. to change its notes.
+	 * @param taskId The ID of the task to update.
+	 * @param changes The fields of the task to change.
+	 * @returns A promise that resolves to the updated task, or null if the update is pending.
+	 */
+	async updateTask(taskId: string, changes: Partial<HabiticaTask>): Promise<HabiticaTask | null> {
+		log(`Updating task in Habitica: ${taskId}`);
+		return this.callDurably<HabiticaTask>({
+			method: 'PUT',
+			endpoint: `tasks/${taskId}`,
+			body: changes,
+			description: `Update ${this._describeTask(taskId)}`
+		});
+	}
+
+	/**
+	 * Adds an item to a task's checklist.
+	 * @param taskId The ID of the task.
+	 * @param item The item to add; at least `text` is required.
+	 * @returns A promise that resolves to the task, including its new checklist item, or null if the addition is pending.
+	 */
+	async addChecklistItem(taskId: string, item: Partial<HabiticaChecklistItem>): Promise<HabiticaTask | null> {
+		log(`Adding checklist item in Habitica: ${taskId}`);
+		return this.callDurably<HabiticaTask>({
+			method: 'POST',
+			endpoint: `tasks/${taskId}/checklist`,
+			body: item,
+			description: `Add "${item.text}" to the checklist of ${this._describeTask(taskId)}`
+		});
+	}
+
+	/**
+	 * Updates a checklist item, e.g. to rename it.
+	 * @param taskId The ID of the task the checklist item belongs to.
+	 * @param itemId The ID of the checklist item.
+	 * @param changes The fields of the item to change.
+	 * @returns A promise that resolves to the updated task, or null if the update is pending.
+	 */
+	async updateChecklistItem(taskId: string, itemId: string, changes: Partial<HabiticaChecklistItem>): Promise<HabiticaTask | null> {
+		log(`Updating checklist item in Habitica: ${taskId}/${itemId}`);
+		return this.callDurably<HabiticaTask>({
+			method: 'PUT',
+			endpoint: `tasks/${taskId}/checklist/${itemId}`,
+			body: changes,
+			description: `Update a checklist item of ${this._describeTask(taskId)}`
+		});
+	}
+
+	/**
+	 * Removes an item from a task's checklist.
+	 * @param taskId The ID of the task the checklist item belongs to.
+	 * @param itemId The ID of the checklist item.
+	 * @returns A promise that resolves once the checklist item has been removed, or its removal is pending.
+	 */
+	async removeChecklistItem(taskId: string, itemId: string): Promise<void> {
+		log(`Removing checklist item in Habitica: ${taskId}/${itemId}`);
+		await this.callDurably({
+			method: 'DELETE',
+			endpoint: `tasks/${taskId}/checklist/${itemId}`,
+			description: `Remove a checklist item from ${this._describeTask(taskId)}`
+		});
+	}
+
+	/**
+	 * Creates a new task in Habitica.
+	 * @param task The task to create; at least `type` and `text` are required.
+	 * @param link The note line the task was made from, to link to the task if its creation is left pending.
+	 * @returns A promise that resolves to the created HabiticaTask, or null if its creation is pending.
+	 */
+	async createTask(task: Partial<HabiticaTask>, link?: PendingLink): Promise<HabiticaTask | null> {
+		log(`Creating task in Habitica: ${task.text}`);
+		return this.callDurably<HabiticaTask>({
+			method: 'POST',
+			endpoint: 'tasks/user',
+			// Sent with an ID of its own, so a create whose response was lost can be looked up rather than repeated
+			body: { id: crypto.randomUUID(), ...task },
+			description: `Create ${task.type} "${task.text}"`,
+			...(link ? { link } : {})
+		});
+	}
+
+	/**
+	 * Retrieves the user's tags, including those of the challenges they joined.
+	 * @returns A promise that resolves to the user's tags.
+	 */
+	async retrieveTags(): Promise<HabiticaTag[]> {
+		const url = this.buildApiUrl('tags', 3);
+		const headers = this._defaultJSONHeaders();
+		log(`Fetching tags from Habitica: ${url}`);
+
+		return this.callWhenRateLimitAllows<HabiticaTag[]>(signal =>
+			this.transport.request(url, { method: 'GET', headers, signal })
+		).then((data: HabiticaResponse<HabiticaTag[]>) => {
+			// Presume failure is caught by _handleResponse
+			return data.data;
+		});
+	}
+
+	/**
+	 * Retrieves the challenges the user joined, to name the challenges their tasks come from.
+	 * @returns A promise that resolves to the challenges.
+	 */
+	async retrieveChallenges(): Promise<HabiticaGroup[]> {
+		const url = this.buildApiUrl('challenges/user', 3, { member: 'true' });
+		const headers = this._defaultJSONHeaders();
+		log(`Fetching challenges from Habitica: ${url}`);
+
+		return this.callWhenRateLimitAllows<HabiticaGroup[]>(signal =>
+			this.transport.request(url, { method: 'GET', headers, signal })
+		).then((data: HabiticaResponse<HabiticaGroup[]>) => {
+			// Presume failure is caught by _handleResponse
+			return data.data;
+		});
+	}
+
+	/**
+	 * Retrieves the user's party and guilds, to name the groups their tasks are assigned through.
+	 * @returns A promise that resolves to the groups.
+	 */
+	async retrieveGroups(): Promise<HabiticaGroup[]> {
+		const url = this.buildApiUrl('groups', 3, { type: 'party,guilds' });
+		const headers = this._defaultJSONHeaders();
+		log(`Fetching groups from Habitica: ${url}`);
+
+		return this.callWhenRateLimitAllows<HabiticaGroup[]>(signal =>
+			this.transport.request(url, { method: 'GET', headers, signal })
+		).then((data: HabiticaResponse<HabiticaGroup[]>) => {
+			// Presume failure is caught by _handleResponse
+			return data.data;
+		});
+	}
+
+	/**
+	 * Settles a task whose challenge broke (e.g. was deleted): keeps it as a personal task, or deletes it.
+	 * @param taskId The ID of the task.
+	 * @param keep Whether to keep the task.
+	 * @returns A promise that resolves once the task is settled, or settling it is pending.
+	 */
+	async unlinkChallengeTask(taskId: string, keep: boolean): Promise<void> {
+		log(`Unlinking broken challenge task in Habitica: ${taskId}`);
+		await this.callDurably({
+			method: 'POST',
+			endpoint: `tasks/unlink-one/${taskId}`,
+			query: { keep: keep ? 'keep' : 'remove' },
+			description: `${keep ? 'Keep' : 'Delete'} ${this._describeTask(taskId)}, from a broken challenge`
+		});
+	}
+
+	/**
+	 * Creates a new tag in Habitica.
+	 * @param name The name of the tag.
+	 * @returns A promise that resolves to the created HabiticaTag.
+	 */
+	async createTag(name: string): Promise<HabiticaTag> {
+		const url = this.buildApiUrl('tags', 3);
+		const headers = this._defaultJSONHeaders();
+		log(`Creating tag in Habitica: ${url}`);
+
+		return this.callWhenRateLimitAllows<HabiticaTag>(signal =>
+			this.transport.request(url, { method: 'POST', headers, body: JSON.stringify({ name }), signal }), false
+		).then((data: HabiticaResponse<HabiticaTag>) => {
+			// Presume failure is caught by _handleResponse
+			return data.data;
+		});
+	}
+
+	/**
+	 * Adds a tag to a task.
+	 * @param taskId The ID of the task.
+	 * @param tagId The ID of the tag to add.
+	 * @returns A promise that resolves once the tag has been added, or its addition is pending.
+	 */
+	async addTagToTask(taskId: string, tagId: string): Promise<void> {
+		log(`Adding tag to task in Habitica: ${taskId}/${tagId}`);
+		// Adding back a tag that's waiting to be removed cancels out
+		const endpoint = `tasks/${taskId}/tags/${tagId}`;
+		await this.callDurably({ method: 'POST', endpoint, undoes: `DELETE ${endpoint}`, description: `Add a tag to ${this._describeTask(taskId)}` });
+	}
+
+	/**
+	 * Removes a tag from a task.
+	 * @param taskId The ID of the task.
+	 * @param tagId The ID of the tag to remove.
+	 * @returns A promise that resolves once the tag has been removed, or its removal is pending.
+	 */
+	async removeTagFromTask(taskId: string, tagId: string): Promise<void> {
+		log(`Removing tag from task in Habitica: ${taskId}/${tagId}`);
+		await this.callDurably({ method: 'DELETE', endpoint: `tasks/${taskId}/tags/${tagId}`, description: `Remove a tag from ${this._describeTask(taskId)}` });
+	}
+}
@@ -0,0 +1,55 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+
+/**
+ * Asks the user to confirm an action before it's taken, e.g. spending gold from a link that may come from outside Obsidian.
+ * Dismissing the modal declines.
+ */
+export class ConfirmModal extends Modal {
+	title: string;
+	message: string;
+	confirmText: string;
+	confirmed = false;
+	resolve: (confirmed: boolean) => void = () => {};
+
+	constructor(app: App, title: string, message: string, confirmText: string) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+	}
+
+	/**
+	 * Opens the modal and waits for the user to answer.
+	 * @returns A promise that resolves to whether the user confirmed.
+	 */
+	prompt(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle(this.title);
+		contentEl.createEl('p', { text: this.message });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.confirmText)
+				.setCta()
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.confirmed);
+	}
+}
@@ -0,0 +1,81 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import type { ConflictResolution } from './types';
+import type { TaskConflict } from './util';
+
+const describeState = (completed: boolean, text: string, checklistDone: number, checklistTotal: number): string => {
+	const checklistPart = checklistTotal > 0 ? ` (${checklistDone}/${checklistTotal} checklist items)` : '';
+	return `${completed ? '[x]' : '[ ]'} ${text}${checklistPart}`;
+}
+
+/**
+ * Asks the user which version to keep for tasks changed both in the notes and on Habitica.
+ * Unresolved conflicts (e.g. when the modal is dismissed) keep the notes version, so nothing written locally is lost.
+ */
+export class ConflictModal extends Modal {
+	conflicts: TaskConflict[];
+	resolutions: Record<string, ConflictResolution> = {};
+	resolve: (resolutions: Record<string, ConflictResolution>) => void = () => {};
+
+	constructor(app: App, conflicts: TaskConflict[]) {
+		super(app);
+		this.conflicts = conflicts;
+		for (const { task } of conflicts) {
+			this.resolutions[task.id] = 'local';
+		}
+	}
+
+	/**
+	 * Opens the modal and waits for the user to settle the conflicts.
+	 * @returns A promise that resolves to the chosen resolution for each task, keyed by task ID.
+	 */
+	prompt(): Promise<Record<string, ConflictResolution>> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Habitica sync conflicts');
+		contentEl.createEl('p', { text: 'These tasks were changed both in your notes and on Habitica since the last sync. Choose which version to keep.' });
+
+		for (const { task, local } of this.conflicts) {
+			const remoteChecklist = task.checklist || [];
+			const descEl = createFragment(fragment => {
+				fragment.createDiv({ text: `Notes: ${describeState(local.completed, local.text, local.checklist.filter(item => item.completed).length, local.checklist.length)}` });
+				fragment.createDiv({ text: `Habitica: ${describeState(task.completed || false, task.text, remoteChecklist.filter(item => item.completed).length, remoteChecklist.length)}` });
+			});
+			new Setting(contentEl)
+				.setName(task.text)
+				.setDesc(descEl)
+				.addDropdown(dropdown => dropdown
+					.addOption('local', 'Keep notes version')
+					.addOption('remote', 'Use Habitica version')
+					.setValue(this.resolutions[task.id])
+					.onChange(value => {
+						this.resolutions[task.id] = value as ConflictResolution;
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Keep all notes versions')
+				.onClick(() => {
+					for (const { task } of this.conflicts) {
+						this.resolutions[task.id] = 'local';
+					}
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('Apply')
+				.setCta()
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.resolutions);
+	}
+}
@@ -0,0 +1,284 @@
+import type { HabiticaGroup, HabiticaTag, HabiticaTask, HabiticaUser, TaskType } from './types';
+import { TaskTypeQueryValues } from './types';
+import type { HabiticaTransport } from './transport';
+
+const API_PATH_REGEX = /\/v3\/(.*)$/;
+
+type FakeHabiticaOptions = {
+	userId?: string // Requests must carry these credentials, if given
+	apiKey?: string
+	rateLimit?: number // Requests allowed per window
+	rateLimitWindow?: number // in milliseconds
+	now?: () => Date // Clock, to control rate limit resets
+	user?: Partial<HabiticaUser>
+	tags?: HabiticaTag[]
+	challenges?: HabiticaGroup[] // Challenges the user joined
+	groups?: HabiticaGroup[] // The user's party and guilds
+}
+
+/**
+ * An in-memory stand-in for the Habitica API, implementing the task and tag endpoints used by `HabiticaClient`
+ * (including the `x-ratelimit-*` headers), for use as its transport in tests and offline development.
+ */
+export class FakeHabitica implements HabiticaTransport {
+	tasks: HabiticaTask[] = [];
+	tags: HabiticaTag[];
+	challenges: HabiticaGroup[];
+	groups: HabiticaGroup[];
+	user: HabiticaUser;
+	requests: { method: string, path: string }[] = [];  // Every request received, in order
+	userId?: string;
+	apiKey?: string;
+	rateLimit: number;
+	rateLimitWindow: number;
+	remainingRequests: number;
+	resetTime: Date;
+	now: () => Date;
+	nextId = 1;
+
+	constructor(tasks: Partial<HabiticaTask>[] = [], options: FakeHabiticaOptions = {}) {
+		this.userId = options.userId;
+		this.apiKey = options.apiKey;
+		this.rateLimit = options.rateLimit ?? 30;
+		this.rateLimitWindow = options.rateLimitWindow ?? 60000;
+		this.now = options.now ?? (() => new Date());
+		this.remainingRequests = this.rateLimit;
+		this.resetTime = new Date(this.now().getTime() + this.rateLimitWindow);
+		this.user = {
+			id: this.userId ?? '',
+			profile: { name: 'Fake Habitican' },
+			stats: { hp: 50, maxHealth: 50, mp: 30, maxMP: 30, exp: 0, toNextLevel: 150, gp: 0, lvl: 1, class: 'warrior' },
+			preferences: { dayStart: 0, timezoneOffset: 0 },
+			...options.user
+		};
+		this.tags = options.tags ?? [];
+		this.challenges = options.challenges ?? [];
+		this.groups = options.groups ?? [];
+		for (const task of tasks) {
+			this.tasks.push(this.buildTask(task));
+		}
+	}
+
+	/**
+	 * Fills in the fields Habitica would set on a new task.
+	 */
+	buildTask(task: Partial<HabiticaTask>): HabiticaTask {
+		const id = task.id ?? this.generateId();
+		const timestamp = this.now().toISOString();
+		return {
+			attribute: 'str',
+			byHabitica: false,
+			challenge: {},
+			checklist: [],
+			group: { assignedUsers: [] },
+			notes: '',
+			priority: 1,
+			reminders: [],
+			tags: [],
+			text: '',
+			type: 'todo',
+			completed: false,
+			value: 0,
+			userId: this.userId ?? '',
+			createdAt: timestamp,
+			updatedAt: timestamp,
+			...(task.type === 'habit' ? { up: true, down: true, counterUp: 0, counterDown: 0 } : {}),
+			...(task.type === 'daily' ? { isDue: true, streak: 0 } : {}),
+			...task,
+			id,
+			_id: id
+		} as HabiticaTask;
+	}
+
+	generateId(): string {
+		return `00000000-0000-4000-8000-${(this.nextId++).toString().padStart(12, '0')}`;
+	}
+
+	async request(url: string, init: RequestInit): Promise<Response> {
+		const method = (init.method ?? 'GET').toUpperCase();
+		const { pathname, searchParams } = new URL(url);
+		const path = API_PATH_REGEX.exec(pathname)?.[1] ?? pathname;
+		this.requests.push({ method, path });
+
+		// Rate limiting
+		if (this.now() >= this.resetTime) {
+			this.remainingRequests = this.rateLimit;
+			this.resetTime = new Date(this.now().getTime() + this.rateLimitWindow);
+		}
+		if (this.remainingRequests <= 0) {
+			const retryAfter = Math.ceil((this.resetTime.getTime() - this.now().getTime()) / 1000);
+			return this.respond(429, { success: false, error: 'TooManyRequests', message: 'Rate limit exceeded' }, { 'Retry-After': retryAfter.toString() });
+		}
+		this.remainingRequests--;
+
+		// Authentication
+		const headers = new Headers(init.headers);
+		if ((this.userId && headers.get('x-api-user') !== this.userId) || (this.apiKey && headers.get('x-api-key') !== this.apiKey)) {
+			return this.respond(401, { success: false, error: 'NotAuthorized', message: 'Missing or invalid authentication headers' });
+		}
+
+		const body = typeof init.body === 'string' && init.body !== '' ? JSON.parse(init.body) : {};
+		const segments = path.split('/');
+		if (path === 'user' && method === 'GET') {
+			return this.respond(200, { success: true, data: this.user });
+		}
+		if (path === 'cron' && method === 'POST') {
+			this.user.needsCron = false;
+			return this.respond(200, { success: true, data: {} });
+		}
+		if (path === 'tasks/user') {
+			if (method === 'GET') {
+				return this.respond(200, { success: true, data: this.listTasks(searchParams.get('type')) });
+			}
+			if (method === 'POST') {
+				if (body.id && this.tasks.some(task => task.id === body.id)) {
+					return this.respond(400, { success: false, error: 'BadRequest', message: 'A task with that ID already exists.' });
+				}
+				const task = this.buildTask(body);
+				this.tasks.push(task);
+				return this.respond(201, { success: true, data: task });
+			}
+		}
+		if (path === 'tags') {
+			if (method === 'GET') {
+				return this.respond(200, { success: true, data: this.tags });
+			}
+			if (method === 'POST') {
+				const tag: HabiticaTag = { id: this.generateId(), name: body.name ?? '' };
+				this.tags.push(tag);
+				return this.respond(201, { success: true, data: tag });
+			}
+		}
+		if (path === 'challenges/user' && method === 'GET') {
+			return this.respond(200, { success: true, data: this.challenges });
+		}
+		if (path === 'groups' && method === 'GET') {
+			return this.respond(200, { success: true, data: this.groups });
+		}
+		if (segments[0] === 'tasks' && segments[1] === 'unlink-one' && method === 'POST') {
+			const task = this.tasks.find(task => task.id === segments[2]);
+			if (!task || !task.challenge.broken) {
+				return this.respond(404, { success: false, error: 'NotFound', message: 'Task not found or not broken.' });
+			}
+			if (searchParams.get('keep') === 'remove') {
+				this.tasks.splice(this.tasks.indexOf(task), 1);
+			} else {
+				task.challenge = {};
+			}
+			return this.respond(200, { success: true, data: {} });
+		}
+		if (segments[0] !== 'tasks' || segments.length < 2) {
+			return this.respond(404, { success: false, error: 'NotFound', message: `Unknown endpoint ${method} ${path}` });
+		}
+		const task = this.tasks.find(task => task.id === segments[1]);
+		if (!task) {
+			return this.respond(404, { success: false, error: 'NotFound', message: 'Task not found.' });
+		}
+		if (segments.length === 2 && method === 'GET') {
+			return this.respond(200, { success: true, data: task });
+		}
+		if (segments.length === 4 && segments[2] === 'score' && method === 'POST') {
+			if (task.type === 'reward' && this.user.stats.gp < task.value) {
+				return this.respond(401, { success: false, error: 'NotAuthorized', message: 'Not enough gold.' });
+			}
+			return this.respond(200, { success: true, data: this.scoreTask(task, segments[3]) });
+		}
+		if (segments.length === 3 && segments[2] === 'checklist' && method === 'POST') {
+			task.checklist = [...(task.checklist ?? []), { completed: false, text: '', ...body, id: this.generateId() }];
+			return this.respond(200, { success: true, data: task });
+		}
+		if (segments.length >= 4 && segments[2] === 'checklist') {
+			const item = (task.checklist ?? []).find(item => item.id === segments[3]);
+			if (!item) {
+				return this.respond(404, { success: false, error: 'NotFound', message: 'Checklist item not found.' });
+			}
+			if (segments.length === 5 && segments[4] === 'score' && method === 'POST') {
+				item.completed = !item.completed;
+				return this.respond(200, { success: true, data: task });
+			}
+			if (segments.length === 4 && method === 'PUT') {
+				Object.assign(item, body, { id: item.id });
+				return this.respond(200, { success: true, data: task });
+			}
+			if (segments.length === 4 && method === 'DELETE') {
+				task.checklist = (task.checklist ?? []).filter(other => other !== item);
+				return this.respond(200, { success: true, data: task });
+			}
+		}
+		if (segments.length === 4 && segments[2] === 'tags') {
+			if (!this.tags.some(tag => tag.id === segments[3])) {
+				return this.respond(404, { success: false, error: 'NotFound', message: 'Tag not found.' });
+			}
+			if (method === 'POST') {
+				if (task.tags.includes(segments[3])) {
+					return this.respond(400, { success: false, error: 'BadRequest', message: 'The task is already tagged with given tag.' });
+				}
+				task.tags.push(segments[3]);
+				return this.respond(200, { success: true, data: task.tags });
+			}
+			if (method === 'DELETE') {
+				if (!task.tags.includes(segments[3])) {
+					return this.respond(404, { success: false, error: 'NotFound', message: 'Tag not found.' });
+				}
+				task.tags.splice(task.tags.indexOf(segments[3]), 1);
+				return this.respond(200, { success: true, data: {} });
+			}
+		}
+		if (segments.length === 2 && method === 'PUT') {
+			Object.assign(task, body, { id: task.id, _id: task._id, type: task.type, updatedAt: this.now().toISOString() });
+			return this.respond(200, { success: true, data: task });
+		}
+		if (segments.length === 2 && method === 'DELETE') {
+			this.tasks.splice(this.tasks.indexOf(task), 1);
+			return this.respond(200, { success: true, data: {} });
+		}
+		return this.respond(404, { success: false, error: 'NotFound', message: `Unknown endpoint ${method} ${path}` });
+	}
+
+	/**
+	 * Lists tasks like `GET tasks/user`: all but completed todos, unless completed todos are asked for.
+	 */
+	listTasks(typeQuery: string | null): HabiticaTask[] {
+		if (typeQuery) {
+			const type = (Object.keys(TaskTypeQueryValues) as TaskType[]).find(type => TaskTypeQueryValues[type] === typeQuery);
+			return this.tasks.filter(task => type === 'completedTodo'
+				? task.type === 'todo' && task.completed
+				: task.type === type && !(task.type === 'todo' && task.completed));
+		}
+		return this.tasks.filter(task => !(task.type === 'todo' && task.completed));
+	}
+
+	scoreTask(task: HabiticaTask, direction: string): object {
+		if (task.type === 'reward') {
+			this.user.stats.gp -= task.value;
+			return { delta: 0, ...this.user.stats };
+		}
+		if (task.type === 'habit') {
+			if (direction === 'up') {
+				task.counterUp = (task.counterUp ?? 0) + 1;
+			} else {
+				task.counterDown = (task.counterDown ?? 0) + 1;
+			}
+		} else {
+			task.completed = direction === 'up';
+		}
+		const delta = direction === 'up' ? 1 : -1;
+		task.value += delta;
+		task.updatedAt = this.now().toISOString();
+		this.user.stats.gp = Math.max(0, this.user.stats.gp + delta);
+		return { delta, ...this.user.stats };
+	}
+
+	respond(status: number, body: object, extraHeaders: Record<string, string> = {}): Response {
+		return new Response(JSON.stringify(body), {
+			status,
+			headers: {
+				'Content-Type': 'application/json',
+				'x-ratelimit-limit': this.rateLimit.toString(),
+				'x-ratelimit-remaining': this.remainingRequests.toString(),
+				'x-ratelimit-reset': this.resetTime.toString(),
+				...extraHeaders
+			}
+		});
+	}
+}
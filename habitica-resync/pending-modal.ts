@@ -0,0 +1,59 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import type HabiticaResyncPlugin from '../main';
+
+/**
+ * Lists the changes waiting to be sent to Habitica, letting the user retry sending them or discard some.
+ */
+export class PendingChangesModal extends Modal {
+	plugin: HabiticaResyncPlugin;
+
+	constructor(app: App, plugin: HabiticaResyncPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle('Pending Habitica changes');
+		const operations = this.plugin.client.pendingOperations();
+		if (operations.length === 0) {
+			contentEl.createEl('p', { text: 'Every change has been sent to Habitica.' });
+			return;
+		}
+		contentEl.createEl('p', { text: 'These changes haven\'t reached Habitica yet. They\'re sent in this order once it can be reached.' });
+		for (const operation of operations) {
+			const setting = new Setting(contentEl)
+				.setName(operation.description)
+				.setDesc(`Made ${new Date(operation.queuedAt).toLocaleString()}`);
+			// Changes being sent can't be taken back
+			if (!this.plugin.client.inFlight.has(operation.id)) {
+				setting.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Discard this change')
+					.onClick(async () => {
+						await this.plugin.client.discardPendingOperation(operation);
+						this.render();
+					}));
+			}
+		}
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Retry now')
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					await this.plugin.replayPendingChanges(true);
+					this.render();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
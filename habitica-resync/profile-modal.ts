@@ -0,0 +1,34 @@
+import type { App } from 'obsidian';
+import { SuggestModal } from 'obsidian';
+import type { HabiticaProfile } from './types';
+
+/**
+ * Lets the user pick the Habitica profile to switch to, marking the active one.
+ */
+export class ProfileSuggestModal extends SuggestModal<HabiticaProfile> {
+	profiles: HabiticaProfile[];
+	activeProfile: string;
+	onChoose: (profile: HabiticaProfile) => void;
+
+	constructor(app: App, profiles: HabiticaProfile[], activeProfile: string, onChoose: (profile: HabiticaProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.activeProfile = activeProfile;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Switch to a Habitica profile');
+	}
+
+	getSuggestions(query: string): HabiticaProfile[] {
+		const lowerQuery = query.toLowerCase();
+		return this.profiles.filter(profile => profile.name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(profile: HabiticaProfile, el: HTMLElement) {
+		el.createDiv({ text: profile.name === this.activeProfile ? `${profile.name} (active)` : profile.name });
+		el.createEl('small', { text: profile.habiticaFolderPath });
+	}
+
+	onChooseSuggestion(profile: HabiticaProfile, _evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(profile);
+	}
+}
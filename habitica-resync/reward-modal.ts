@@ -0,0 +1,38 @@
+import type { App } from 'obsidian';
+import { SuggestModal } from 'obsidian';
+import type { HabiticaTask } from './types';
+import { formatGold } from './util';
+
+/**
+ * Lets the user pick a reward to buy, showing each reward's cost against the user's gold.
+ */
+export class RewardSuggestModal extends SuggestModal<HabiticaTask> {
+	rewards: HabiticaTask[];
+	gold: number;
+	onChoose: (reward: HabiticaTask) => void;
+
+	constructor(app: App, rewards: HabiticaTask[], gold: number, onChoose: (reward: HabiticaTask) => void) {
+		super(app);
+		this.rewards = rewards;
+		this.gold = gold;
+		this.onChoose = onChoose;
+		this.setPlaceholder(`Buy a reward (you have 💰 ${formatGold(gold)})`);
+	}
+
+	getSuggestions(query: string): HabiticaTask[] {
+		const lowerQuery = query.toLowerCase();
+		return this.rewards.filter(reward => reward.text.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(reward: HabiticaTask, el: HTMLElement) {
+		el.createDiv({ text: reward.text });
+		el.createEl('small', {
+			text: `💰 ${reward.value}`,
+			cls: reward.value > this.gold ? 'habitica-reward-unaffordable' : ''
+		});
+	}
+
+	onChooseSuggestion(reward: HabiticaTask, _evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(reward);
+	}
+}
@@ -0,0 +1,86 @@
+import type { App } from 'obsidian';
+import { Modal, Setting } from 'obsidian';
+import type { SyncOperation } from './util';
+
+const MAX_DIFF_LINES = 20; // Longer diffs are cut short, so one big note doesn't bury the other operations
+
+/**
+ * Shows what a sync would push to Habitica and write into the notes, so the user can approve all of it or pick operations.
+ * Dismissing the modal cancels the sync.
+ */
+export class SyncPreviewModal extends Modal {
+	operations: SyncOperation[];
+	approved: Set<string>;
+	confirmed = false;
+	resolve: (approved: Set<string> | null) => void = () => {};
+
+	constructor(app: App, operations: SyncOperation[]) {
+		super(app);
+		this.operations = operations;
+		this.approved = new Set(operations.map(operation => operation.key));
+	}
+
+	/**
+	 * Opens the modal and waits for the user to approve the operations.
+	 * @returns A promise that resolves to the keys of the approved operations, or null if the sync was cancelled.
+	 */
+	prompt(): Promise<Set<string> | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Preview Habitica sync');
+		contentEl.createEl('p', { text: 'This sync would make the following changes. Untick those to leave for a later sync.' });
+
+		for (const operation of this.operations) {
+			const descEl = createFragment(fragment => {
+				const diffEl = fragment.createDiv({ cls: 'habitica-sync-preview-diff' });
+				for (const line of operation.diff.slice(0, MAX_DIFF_LINES)) {
+					diffEl.createDiv({ text: line, cls: line.startsWith('+') ? 'habitica-diff-added' : 'habitica-diff-removed' });
+				}
+				if (operation.diff.length > MAX_DIFF_LINES) {
+					diffEl.createDiv({ text: `… ${operation.diff.length - MAX_DIFF_LINES} more line(s)` });
+				}
+			});
+			new Setting(contentEl)
+				.setName(operation.description)
+				.setDesc(descEl)
+				.addToggle(toggle => toggle
+					.setValue(true)
+					.setDisabled(!!operation.required)
+					.setTooltip(operation.required ? 'Changes left pending are sent before any other' : '')
+					.onChange(value => {
+						if (value) {
+							this.approved.add(operation.key);
+						} else {
+							this.approved.delete(operation.key);
+						}
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Sync selected')
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('Sync all')
+				.setCta()
+				.onClick(() => {
+					this.approved = new Set(this.operations.map(operation => operation.key));
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.confirmed ? this.approved : null);
+	}
+}
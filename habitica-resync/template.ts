@@ -0,0 +1,194 @@
+/**
+ * Line templates: text with `{{placeholder}}`s, and `{{#placeholder}}...{{/placeholder}}` sections
+ * that are only rendered when their placeholder has a value.
+ * The same template is used to render a line and to parse it back, so custom formats round-trip.
+ */
+
+type TemplateNode =
+	| { kind: 'literal', text: string }
+	| { kind: 'placeholder', name: string }
+	| { kind: 'section', name: string, children: TemplateNode[] };
+
+const TEMPLATE_TAG_REGEX = /\{\{([#/]?)(\w+)\}\}/g;
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+/**
+ * Parses a template into its literals, placeholders and sections.
+ * @param template The template to parse.
+ * @returns The template's nodes.
+ * @throws An error if a section isn't closed, or closed without being opened.
+ */
+export const parseTemplate = (template: string): TemplateNode[] => {
+	const cached = parsedTemplates.get(template);
+	if (cached) {
+		return cached;
+	}
+	const root: TemplateNode[] = [];
+	const stack: { name: string, children: TemplateNode[] }[] = [{ name: '', children: root }];
+	let lastIndex = 0;
+	for (const match of template.matchAll(TEMPLATE_TAG_REGEX)) {
+		const current = stack[stack.length - 1];
+		const index = match.index ?? 0;
+		if (index > lastIndex) {
+			current.children.push({ kind: 'literal', text: template.slice(lastIndex, index) });
+		}
+		lastIndex = index + match[0].length;
+		const [, marker, name] = match;
+		if (marker === '#') {
+			const section: TemplateNode = { kind: 'section', name, children: [] };
+			current.children.push(section);
+			stack.push({ name, children: section.children });
+		} else if (marker === '/') {
+			if (stack.length === 1 || current.name !== name) {
+				throw new Error(`Template closes section "${name}" without opening it`);
+			}
+			stack.pop();
+		} else {
+			current.children.push({ kind: 'placeholder', name });
+		}
+	}
+	if (stack.length > 1) {
+		throw new Error(`Template doesn't close section "${stack[stack.length - 1].name}"`);
+	}
+	if (lastIndex < template.length) {
+		root.push({ kind: 'literal', text: template.slice(lastIndex) });
+	}
+	parsedTemplates.set(template, root);
+	return root;
+}
+
+/**
+ * Checks that a template can be parsed and only uses known placeholders.
+ * @param template The template to check.
+ * @param names The known placeholder names.
+ * @returns A description of the problem, or null if the template is fine.
+ */
+export const validateTemplate = (template: string, names: readonly string[]): string | null => {
+	let nodes: TemplateNode[];
+	try {
+		nodes = parseTemplate(template);
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+	const unknown = (nodes: TemplateNode[]): string | null => {
+		for (const node of nodes) {
+			if (node.kind !== 'literal' && !names.includes(node.name)) {
+				return node.name;
+			}
+			const inner = node.kind === 'section' ? unknown(node.children) : null;
+			if (inner) {
+				return inner;
+			}
+		}
+		return null;
+	};
+	const unknownName = unknown(nodes);
+	return unknownName ? `Unknown placeholder "${unknownName}"` : null;
+}
+
+/**
+ * Lists the placeholders a template writes values into, in order of first use.
+ * Names only used for sections aren't listed, since their values can't be read back.
+ * @param template The template.
+ * @returns The placeholder names.
+ */
+export const templatePlaceholderNames = (template: string): string[] => {
+	const names: string[] = [];
+	const collect = (nodes: TemplateNode[]) => {
+		for (const node of nodes) {
+			if (node.kind === 'section') {
+				collect(node.children);
+			} else if (node.kind === 'placeholder' && !names.includes(node.name)) {
+				names.push(node.name);
+			}
+		}
+	};
+	collect(parseTemplate(template));
+	return names;
+}
+
+/**
+ * Renders a template with the given values.
+ * Whitespace from the template is collapsed, so empty placeholders don't leave gaps; the values are kept as they are.
+ * @param template The template to render.
+ * @param values The value of each placeholder; missing placeholders render empty.
+ * @returns The rendered text, trimmed.
+ */
+export const renderTemplate = (template: string, values: Record<string, string>): string => {
+	let rendered = '';
+	const render = (nodes: TemplateNode[]) => {
+		for (const node of nodes) {
+			if (node.kind === 'section') {
+				if (values[node.name]) {
+					render(node.children);
+				}
+			} else if (node.kind === 'placeholder') {
+				rendered += values[node.name] || '';
+			} else {
+				// Collapse template whitespace into single spaces between non-empty parts
+				for (const part of node.text.split(/(\s+)/)) {
+					if (!/^\s+$/.test(part)) {
+						rendered += part;
+					} else if (rendered !== '' && !/\s$/.test(rendered)) {
+						rendered += ' ';
+					}
+				}
+			}
+		}
+	};
+	render(parseTemplate(template));
+	return rendered.trim();
+}
+
+/**
+ * Escapes text for literal use in a regular expression.
+ */
+export const escapeRegExp = (text: string): string => {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches text rendered from a template, recovering the placeholder values.
+ * Template whitespace matches any whitespace (or none), and every placeholder but the required ones may be empty.
+ * @param template The template the text was rendered from.
+ * @param patterns The regular expression matching each placeholder's values; unknown placeholders match anything.
+ * @param text The text to match.
+ * @param required The placeholders that must have a value.
+ * @returns The value of each placeholder found, or null if the text doesn't match the template.
+ */
+export const matchTemplate = (
+	template: string,
+	patterns: Record<string, string>,
+	text: string,
+	required: readonly string[] = []
+): Record<string, string> | null => {
+	const names: string[] = [];
+	const build = (nodes: TemplateNode[]): string => nodes.map(node => {
+		if (node.kind === 'section') {
+			return `(?:${build(node.children)})?`;
+		}
+		if (node.kind === 'placeholder') {
+			const pattern = patterns[node.name] ?? '.*?';
+			// Only the first occurrence of a placeholder captures its value
+			if (names.includes(node.name)) {
+				return `(?:${pattern})?`;
+			}
+			names.push(node.name);
+			return required.includes(node.name) ? `(${pattern})` : `(${pattern})?`;
+		}
+		return node.text.split(/(\s+)/).map(part => /^\s+$/.test(part) ? '\\s*' : escapeRegExp(part)).join('');
+	}).join('');
+	const regex = new RegExp(`^\\s*${build(parseTemplate(template))}\\s*$`, 'u');
+	const match = regex.exec(text);
+	if (!match) {
+		return null;
+	}
+	const values: Record<string, string> = {};
+	names.forEach((name, i) => {
+		if (match[i + 1] !== undefined) {
+			values[name] = match[i + 1];
+		}
+	});
+	return values;
+}
@@ -0,0 +1,14 @@
+/**
+ * Performs the HTTP requests of `HabiticaClient`.
+ * Swapped out for a fake Habitica (see `FakeHabitica`) to exercise the client without a live account.
+ */
+export interface HabiticaTransport {
+	request(url: string, init: RequestInit): Promise<Response>;
+}
+
+/**
+ * The default transport, sending requests over the network with the global `fetch`.
+ */
+export const fetchTransport: HabiticaTransport = {
+	request: (url: string, init: RequestInit) => fetch(url, init)
+};
@@ -1,16 +1,73 @@
 
 export interface HabiticaTasksSettings {
+	// userId, apiKey, habiticaFolderPath and globalTaskTag are those of the active profile, stored back into it on save
+	profiles: HabiticaProfile[]; // Every Habitica account set up, including the active one
+	activeProfile: string; // Name of the profile in use
 	userId: string; // Habitica User ID
+	apiBaseUrl: string; // Base URL of the Habitica API, e.g. for self-hosted instances
 	timeOut: number; // in milliseconds
 	apiKey: string; // Habitica API Key
 	rateLimitBuffer: number; // Optional additional buffer for rate limiting
 	habiticaFolderPath: string; // Optional folder path for Habitica tasks
 	globalTaskTag?: string; // Optional global tag for all Habitica tasks
+	tagPrefix: string; // Prepended to Habitica tag names to form Obsidian tags, e.g. 'habitica/' for #habitica/work
 	indentString: string
 	enableNotes: boolean; // Whether to enable notes syncing
 	enablePane: boolean; // Whether to enable the Habitica pane in Obsidian
+	autoSyncInterval: number; // in minutes, 0 disables auto-sync
+	syncOnStartup: boolean; // Whether to sync when Obsidian starts
+	syncOnFocus: boolean; // Whether to sync when the Obsidian window regains focus
+	completedTodoArchive: CompletedTodoArchiveMode; // Where to archive todos completed on Habitica, if at all
+	archiveRetentionDays: number; // How long to keep completed todos in the archive, in days; 0 keeps them forever
+	taskNotesStyle: TaskNotesStyle; // How to write each task's notes under its line, if at all
+	noteLayout: NoteLayout; // Whether tasks are written into a note per type or a note per task
+	taskLinePreset: TaskLinePreset; // Format of task lines; 'custom' uses taskLineTemplate
+	taskLineTemplate: string; // Template for task lines, with {{placeholder}}s and {{#placeholder}}...{{/placeholder}} sections
+	enableVaultCapture: boolean; // Whether to turn tagged task lines anywhere in the vault into Habitica todos
+	captureTag: string; // Tag marking the task lines to capture; empty to use globalTaskTag
+	checkInYesterdailies: boolean; // Whether to offer yesterday's undone dailies for check-in when Obsidian starts on a new Habitica day
+	syncHistoryLength: number; // How many syncs to keep in the sync history note; 0 keeps no history
 }
 
+// A Habitica account, and where its tasks are kept in the vault
+export type HabiticaProfile = {
+	name: string
+	userId: string
+	apiKey: string
+	habiticaFolderPath: string
+	globalTaskTag?: string
+}
+
+// Values available to task line templates
+export const TemplatePlaceholders = [
+	'text', 'tag', 'tags', 'priority', 'priorityEmoji', 'due', 'start', 'done',
+	'recurrence', 'id', 'attribute', 'streak', 'checklist', 'notDue', 'origin', 'approval'
+] as const;
+export type TemplatePlaceholder = typeof TemplatePlaceholders[number];
+
+export type TaskLinePreset = 'tasks' | 'dataview' | 'plain' | 'custom';
+
+// Templates for the built-in task line formats: Obsidian Tasks' emojis, Dataview inline fields and plain text
+export const TaskLinePresets: Record<Exclude<TaskLinePreset, 'custom'>, string> = {
+	// Markers Tasks doesn't know come before its fields, which it only reads at the end of the line
+	tasks: '{{tag}} {{text}} {{tags}} {{origin}} {{#approval}}🙋 {{approval}}{{/approval}} {{#checklist}}📋 {{checklist}}{{/checklist}} {{#streak}}🔥 {{streak}}{{/streak}} {{notDue}} {{priorityEmoji}} '
+		+ '{{#recurrence}}🔁 {{recurrence}}{{/recurrence}} {{#start}}🛫 {{start}}{{/start}} {{#due}}📅 {{due}}{{/due}} '
+		+ '{{#done}}✅ {{done}}{{/done}}',
+	dataview: '{{tag}} {{text}} {{tags}} {{origin}} {{#approval}}[approval:: {{approval}}]{{/approval}} {{#checklist}}[checklist:: {{checklist}}]{{/checklist}} {{#streak}}[streak:: {{streak}}]{{/streak}} '
+		+ '[priority:: {{priority}}] {{#recurrence}}[repeat:: {{recurrence}}]{{/recurrence}} {{#start}}[start:: {{start}}]{{/start}} '
+		+ '{{#due}}[due:: {{due}}]{{/due}} {{#done}}[completion:: {{done}}]{{/done}} {{#notDue}}[due today:: false]{{/notDue}}',
+	plain: '{{tag}} {{text}} {{tags}} {{origin}}{{#approval}} ({{approval}}){{/approval}}{{#due}} (due {{due}}){{/due}}'
+};
+
+// 'aggregated' writes a note per task type, 'perTask' a note per task (with properties) in a folder per type
+export type NoteLayout = 'aggregated' | 'perTask';
+
+// 'indented' writes notes as indented text under the task, 'callout' in a collapsed callout
+export type TaskNotesStyle = 'off' | 'indented' | 'callout';
+
+// 'single' archives into one file, 'monthly' into a file per month of completion
+export type CompletedTodoArchiveMode = 'off' | 'single' | 'monthly';
+
 export type HabiticaTask = {
 	attribute: string
 	byHabitica: boolean
@@ -18,24 +75,27 @@ export type HabiticaTask = {
 		id?: string
 		shortName?: string
 		taskId?: string
+		broken?: string // Why the task no longer follows its challenge, e.g. 'CHALLENGE_DELETED' or 'TASK_DELETED'
 	}
-	checklist?: {
-		completed: boolean
-		id: string
-		text: string
-	}
-	collapseChecklist?: boolean
+	checklist?: HabiticaChecklistItem[]
+	collapseChecklist?: boolean // Whether the checklist is folded away in Habitica's UI
 	completed?: boolean
 	counterDown?: number
 	counterUp?: number
 	createdAt: string
 	date?: any
-	daysOfMonth?: object
+	dateCompleted?: string // ISO timestamp, for completed todos
+	daysOfMonth?: number[]
 	down?: boolean
 	everyX?: number
 	frequency?: string
 	group: {
-		approval?: object
+		id?: string // Of the party or guild that assigned the task
+		approval?: {
+			required?: boolean // Whether completing the task needs a group manager's approval
+			requested?: boolean
+			approved?: boolean
+		}
 		assignedUsers: object
 		completedBy?: object
 		sharedCompletion?: string
@@ -47,9 +107,9 @@ export type HabiticaTask = {
 	notes: string
 	priority: number
 	reminders: object
-	repeat?: object
+	repeat?: HabiticaRepeat
 	startDate?: string
-	steak?: number
+	streak?: number
 	tags: string[]
 	text: string
 	type: TaskType
@@ -57,11 +117,28 @@ export type HabiticaTask = {
 	updatedAt: string
 	userId: string
 	value: number
-	weeksOfMonth?: object
-	yesterDaily?: boolean
+	weeksOfMonth?: number[] // 0-based, e.g. 0 for the first week of the month
+	yesterDaily?: boolean // Whether the daily is offered for check-in before cron, if left undone
 	_id: string
 }
 
+export type HabiticaChecklistItem = {
+	completed: boolean
+	id: string
+	text: string
+}
+
+// Days of the week a weekly (or monthly by week) daily repeats on
+export type HabiticaRepeat = {
+	su: boolean
+	m: boolean
+	t: boolean
+	w: boolean
+	th: boolean
+	f: boolean
+	s: boolean
+}
+
 export const TaskTypes = {
 	habit: 'habit',
 	daily: 'daily',
@@ -73,11 +150,140 @@ export type TaskType = typeof TaskTypes[keyof typeof TaskTypes];
 export type HabiticaTaskMap = {
 	[key in TaskType]: HabiticaTask[];
 }
-export const ExcludedTaskTypes: Set<TaskType> = new Set(['completedTodo', 'reward']);
+// Values of the `type` query parameter of `GET tasks/user` selecting each task type
+export const TaskTypeQueryValues: Record<TaskType, string> = {
+	habit: 'habits',
+	daily: 'dailys',
+	todo: 'todos',
+	reward: 'rewards',
+	completedTodo: 'completedTodos'
+};
+export const ExcludedTaskTypes: Set<TaskType> = new Set(['completedTodo']);
+
+// A challenge or group (party or guild) tasks can come from
+export type HabiticaGroup = {
+	id: string
+	name: string
+}
+
+export type HabiticaTag = {
+	id: string
+	name: string
+	challenge?: boolean // Whether the tag belongs to a challenge
+}
+
+// What rendering a task needs beyond the task itself and the settings
+export type HabiticaRenderContext = {
+	tagNames: Record<string, string> // Habitica tag names, keyed by tag ID
+	groupNames: Record<string, string> // Names of the challenges and groups tasks come from, keyed by their ID
+	day: HabiticaDayPreferences // To date tasks in the user's Habitica day
+}
+
+// When the user's Habitica day starts, from their profile preferences
+export type HabiticaDayPreferences = {
+	dayStart: number // Hour of the day, 0-23, at which Habitica's day starts (and cron runs)
+	timezoneOffset: number // Minutes behind UTC, as given by `Date.getTimezoneOffset()`
+}
 
-export type HabiticaResponse = {
+export type HabiticaStats = {
+	hp: number
+	maxHealth: number
+	mp: number
+	maxMP: number
+	exp: number
+	toNextLevel: number
+	gp: number // Gold
+	lvl: number
+	class: string
+}
+
+export type HabiticaUser = {
+	id: string
+	profile: {
+		name: string
+	}
+	stats: HabiticaStats
+	preferences: HabiticaDayPreferences
+	needsCron?: boolean // Whether a new day started, and cron waits for the user to check in yesterday's dailies
+}
+
+// The user's stats after scoring a task, alongside how much the task's value changed
+export type HabiticaScoreResult = Partial<HabiticaStats> & {
+	delta: number
+}
+
+export type HabiticaResponse<T = HabiticaTask[] | HabiticaTask> = {
 	success: boolean;
-	data: HabiticaTask[] | HabiticaTask;
+	data: T;
+}
+
+export type ScoreDirection = 'up' | 'down';
+
+/**
+ * The state of a task as it was last written to (or pushed from) the notes.
+ * Used to tell which lines the user changed since the last pull.
+ */
+export type SyncedTaskState = {
+	id: string
+	type: TaskType
+	text: string
+	completed: boolean
+	checklist?: SyncedChecklistItem[] // Absent in state saved by older versions
+	tags?: string[] // Sanitized tag names, as written to the notes; absent in state saved by older versions
+	notes?: string // Absent if notes weren't written to the notes at the time
+	priority?: number // Habitica difficulty, as written; absent in state saved by older versions
+	due?: string // Todos' due date, as YYYY-MM-DD (empty if none); absent for other types
+	start?: string // Dailies' start date, as YYYY-MM-DD (empty if none); absent for other types
+	recurrence?: string // Dailies' Tasks recurrence rule (empty if none); absent for other types
+	readOnly?: boolean // Whether Habitica only takes the task's notes, tags, checklist and completion, e.g. for challenge tasks
+	needsApproval?: boolean // Whether completing the task asks a group manager for approval
+	updatedAt?: string // As of the last pull; absent to have the task rendered again at the next one
+}
+
+export type SyncedChecklistItem = {
+	id?: string // Absent for items pushed from the notes that haven't been pulled back yet
+	text: string
+	completed: boolean
+}
+
+export type ConflictResolution = 'local' | 'remote';
+
+/**
+ * A task line outside the Habitica folder, captured into a Habitica todo.
+ */
+export type CapturedTaskState = {
+	path: string // The note holding the line, as last seen
+	completed: boolean // As last synced
+}
+
+/**
+ * A write to Habitica, recorded before it's sent so it survives failed requests and restarts.
+ */
+export type PendingOperation = {
+	id: string // Of the operation itself
+	method: 'POST' | 'PUT' | 'DELETE'
+	endpoint: string // Relative to the API version, e.g. 'tasks/<task id>/score/up'
+	query?: Record<string, string>
+	body?: object
+	description: string // Shown in the pending changes view
+	queuedAt: string // ISO timestamp
+	undoes?: string // The write this one reverses, as '<method> <endpoint>', e.g. scoring a todo down reverses scoring it up
+	link?: PendingLink // For new todos: the line to link to the todo once it's created
+	uncertain?: boolean // Whether it may have reached Habitica without its response making it back, e.g. after a timeout
+}
+
+export type PendingLink = {
+	path: string // The note holding the line
+	line: string // The line, as it was when the todo was queued
+	capture: boolean // Whether the line was captured from the vault, rather than created from the editor
+}
+
+export interface HabiticaSyncState {
+	tasks: Record<string, SyncedTaskState>; // Keyed by task ID
+	captured: Record<string, CapturedTaskState>; // Keyed by task ID
+	pendingOperations: PendingOperation[]; // Writes not yet confirmed by Habitica, in the order they were made
+	lastSyncTime?: string; // ISO timestamp of the last successful sync
+	renderSignature?: string; // What task lines were last rendered with; tasks are only re-rendered if it changed, or they did
 }
 
 export interface HabiticaTaskRequest {
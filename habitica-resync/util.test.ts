@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { HabiticaRenderContext, HabiticaTask, HabiticaTasksSettings } from './types';
+import { TaskLinePresets } from './types';
+import { appendArchivedTasks, describePushChanges, habiticaDateFor, localDate, mergeNoteContent, noteContentForTasks, pruneArchivedTasks, parseNoteTasks, snapshotForTask, taskToNoteLines } from './util';
+import { FakeHabitica } from './fake-habitica';
+
+const settings: HabiticaTasksSettings = {
+	profiles: [],
+	activeProfile: '',
+	userId: '',
+	apiBaseUrl: '',
+	timeOut: 30000,
+	apiKey: '',
+	rateLimitBuffer: 10000,
+	habiticaFolderPath: 'HabiticaTasks',
+	tagPrefix: 'habitica/',
+	indentString: '    ',
+	enableNotes: true,
+	enablePane: false,
+	autoSyncInterval: 0,
+	syncOnStartup: false,
+	syncOnFocus: false,
+	completedTodoArchive: 'off',
+	archiveRetentionDays: 0,
+	taskNotesStyle: 'indented',
+	noteLayout: 'aggregated',
+	taskLinePreset: 'tasks',
+	taskLineTemplate: TaskLinePresets.tasks,
+	enableVaultCapture: false,
+	captureTag: '',
+	checkInYesterdailies: true,
+	syncHistoryLength: 50
+};
+
+const context: HabiticaRenderContext = {
+	tagNames: { 'tag-1': 'Work' },
+	groupNames: {},
+	day: { dayStart: 0, timezoneOffset: 0 }
+};
+
+// Fills in the fields Habitica sets, as the fake Habitica does
+const fake = new FakeHabitica();
+const task = (fields: Partial<HabiticaTask>): HabiticaTask => fake.buildTask(fields);
+
+describe('note generation', () => {
+	const todo = task({
+		type: 'todo',
+		text: 'Buy milk',
+		tags: ['tag-1'],
+		notes: 'Oat, not dairy',
+		checklist: [{ id: 'item-1', text: 'Find a shop', completed: true }]
+	});
+
+	it('writes a todo with its tags, notes and checklist, linked by block ID', () => {
+		expect(taskToNoteLines(todo, settings, context).split('\n')).toEqual([
+			`- [ ] Buy milk #habitica/Work 🔽 ^habitica-${todo.id}`,
+			'    Oat, not dairy',
+			'    - [x] Find a shop ^habitica-item-1'
+		]);
+	});
+
+	it('parses written tasks back', () => {
+		const [parsed] = parseNoteTasks(taskToNoteLines(todo, settings, context), settings);
+
+		expect(parsed).toMatchObject({
+			id: todo.id,
+			completed: false,
+			text: 'Buy milk',
+			tags: ['Work'],
+			notes: 'Oat, not dairy',
+			checklist: [{ id: 'item-1', text: 'Find a shop', completed: true }]
+		});
+	});
+
+	it('reads back the fields edited on a task line', () => {
+		const dated = task({ type: 'todo', text: 'Pay rent', priority: 1, date: '2026-10-20T00:00:00.000Z' });
+		const line = taskToNoteLines(dated, settings, context).replace('📅 2026-10-20', '📅 2026-10-25').replace('🔽', '⏫');
+		const [parsed] = parseNoteTasks(line, settings);
+
+		expect(parsed.fields).toMatchObject({ due: '2026-10-25', priorityEmoji: '⏫' });
+		expect(describePushChanges(snapshotForTask(dated, settings, context), parsed)).toEqual(['difficulty changed', 'due 2026-10-20 → 2026-10-25']);
+	});
+
+	it('reverts the fields edited on a challenge task', () => {
+		const challengeTask = task({ type: 'todo', text: 'Run 5k', priority: 1, date: '2026-10-20T00:00:00.000Z', challenge: { id: 'challenge-1', taskId: 'task-1', shortName: 'Running' } });
+		const written = taskToNoteLines(challengeTask, settings, context);
+		const edited = written.replace('📅 2026-10-20', '📅 2026-10-25').replace('🔽', '⏫');
+		const synced = snapshotForTask(challengeTask, settings, context);
+
+		expect(describePushChanges(synced, parseNoteTasks(edited, settings)[0])).toEqual(['difficulty, dates and repeat reverted (set by the challenge or group)']);
+		// The push drops `updatedAt`, so the pull renders the task again rather than keeping the edited line
+		delete synced.updatedAt;
+		expect(mergeNoteContent(edited, [challengeTask], { [challengeTask.id]: synced }, settings, context, {}, true).content).toBe(written);
+	});
+
+	it('separates the tasks of a note', () => {
+		const other = task({ type: 'todo', text: 'Call mum' });
+
+		expect(noteContentForTasks([todo, other], settings, context)).toBe(
+			`${taskToNoteLines(todo, settings, context)}\n\n---\n\n${taskToNoteLines(other, settings, context)}`
+		);
+	});
+});
+
+describe('mergeNoteContent', () => {
+	const first = task({ type: 'todo', text: 'Buy milk' });
+	const second = task({ type: 'todo', text: 'Call mum' });
+	const synced = {
+		[first.id]: snapshotForTask(first, settings, context),
+		[second.id]: snapshotForTask(second, settings, context)
+	};
+	const content = `# My todos\n\n${noteContentForTasks([first, second], settings, context)}\n\nWritten by hand.`;
+
+	it('leaves the note alone when nothing changed', () => {
+		expect(mergeNoteContent(content, [first, second], synced, settings, context).content).toBe(content);
+	});
+
+	it('keeps user-authored content while adding and removing tasks', () => {
+		const added = task({ type: 'todo', text: 'Water plants' });
+
+		const { content: merged, conflicts } = mergeNoteContent(content, [second, added], synced, settings, context);
+
+		expect(conflicts).toEqual([]);
+		expect(merged).toContain('# My todos');
+		expect(merged).toContain('Written by hand.');
+		expect(parseNoteTasks(merged, settings).map(task => task.text)).toEqual(['Call mum', 'Water plants']);
+	});
+
+	it('keeps tasks ticked in the note but unchanged on Habitica', () => {
+		const ticked = content.replace('- [ ] Buy milk', '- [x] Buy milk');
+
+		expect(mergeNoteContent(ticked, [first, second], synced, settings, context).content).toBe(ticked);
+	});
+
+	it('reports tasks changed on both sides as conflicts', () => {
+		const ticked = content.replace('- [ ] Buy milk', '- [x] Buy milk');
+		const renamed = { ...first, text: 'Buy oat milk' };
+
+		const { conflicts } = mergeNoteContent(ticked, [renamed, second], synced, settings, context);
+
+		expect(conflicts.map(conflict => conflict.task.id)).toEqual([first.id]);
+	});
+});
+
+describe('completed todo archive', () => {
+	const plainSettings: HabiticaTasksSettings = { ...settings, taskLinePreset: 'plain', taskLineTemplate: TaskLinePresets.plain };
+	const done = task({ type: 'todo', text: 'Buy milk', completed: true, dateCompleted: '2026-01-10T12:00:00.000Z' });
+
+	it('keeps the completion date whatever the task line format', () => {
+		const archive = appendArchivedTasks('', [done], plainSettings, context);
+
+		expect(archive).toContain('✅ 2026-01-10');
+		expect(appendArchivedTasks(archive, [done], plainSettings, context)).toBe(archive);
+	});
+
+	it('drops todos completed before the cutoff', () => {
+		const archive = appendArchivedTasks('# Archive\n', [done], plainSettings, context);
+
+		expect(pruneArchivedTasks(archive, '2026-01-01', plainSettings)).toBe(archive);
+		expect(pruneArchivedTasks(archive, '2026-06-01', plainSettings)).toBe('# Archive\n');
+	});
+});
+
+describe('Habitica day dates', () => {
+	// Run with TZ=America/New_York (see vitest.config.mjs), where the offset is 300 in winter and 240 in summer
+	const winter = { dayStart: 0, timezoneOffset: new Date(2026, 0, 15).getTimezoneOffset() };
+
+	it('dates instants in the user\'s timezone', () => {
+		expect(localDate('2026-01-15T04:30:00.000Z', winter)).toBe('2026-01-14');
+		expect(localDate('2026-01-15T05:30:00.000Z', winter)).toBe('2026-01-15');
+	});
+
+	it('dates instants across a DST change with the offset at that instant', () => {
+		vi.useFakeTimers({ now: new Date(2026, 0, 15) });
+		try {
+			expect(localDate('2026-07-01T04:00:00.000Z', winter)).toBe('2026-07-01');
+			expect(habiticaDateFor('2026-07-01', winter)).toBe('2026-07-01T04:00:00.000Z');
+			expect(habiticaDateFor('2026-01-20', winter)).toBe('2026-01-20T05:00:00.000Z');
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
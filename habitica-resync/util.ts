@@ -1,5 +1,7 @@
-import type { HabiticaTask, HabiticaTaskMap, HabiticaTasksSettings as HabiticaTaskSettings } from './types';
-import { TaskTypes, ExcludedTaskTypes } from './types';
+import type { HabiticaTask, HabiticaTaskMap, HabiticaTasksSettings as HabiticaTaskSettings, SyncedTaskState, ConflictResolution, ScoreDirection, HabiticaRepeat, HabiticaRenderContext, HabiticaDayPreferences } from './types';
+import type { TemplatePlaceholder } from './types';
+import { TaskTypes, ExcludedTaskTypes, TaskLinePresets } from './types';
+import { renderTemplate, matchTemplate, escapeRegExp, templatePlaceholderNames } from './template';
 // import { version as VERSION } from './manifest.json';
 
 /**
@@ -74,53 +76,282 @@ export const organizeHabiticaTasksByType = (tasks: HabiticaTask[]): HabiticaTask
 }
 
 
+const BLOCK_ID_PREFIX = 'habitica-';
+const BLOCK_ID_REGEX = new RegExp(`\\s*\\^${BLOCK_ID_PREFIX}([0-9A-Za-z-]+)\\s*$`);
+
+/**
+ * Builds the Obsidian block ID linking a note line to a Habitica task or checklist item.
+ * @param id The ID of the Habitica task or checklist item.
+ * @returns The block ID, including the leading caret.
+ */
+export const blockIdFor = (id: string): string => {
+    return `^${BLOCK_ID_PREFIX}${id}`;
+}
+
+/**
+ * Generates the indented checkbox lines for a task's checklist.
+ * Collapsed checklists get no lines; the task's line shows their progress instead.
+ */
 export const checklistPartForTask = (task: HabiticaTask, settings: HabiticaTaskSettings): string[] => {
-    // If checklist is invalid, return empty array
-    if (!task.checklist || !Array.isArray(task.checklist) || task.checklist.length === 0) {
+    // If checklist is invalid or collapsed, return empty array
+    if (!task.checklist || !Array.isArray(task.checklist) || task.checklist.length === 0 || task.collapseChecklist) {
         return [];
     }
     // Coalesce checklist items into markdown lines
     const checklistLines: string[] = [];
     for (const item of task.checklist) {
         const completed = item.completed ? '- [x]' : '- [ ]';
-        checklistLines.push(`${settings.indentString}${completed} ${item.text}`);
+        checklistLines.push(`${settings.indentString}${completed} ${item.text} ${blockIdFor(item.id)}`);
     }
     return checklistLines;
 }
 
-const isDue = (task: HabiticaTask): boolean => {
+const NOTES_CALLOUT_HEADER = '> [!note]- Notes';
+const CALLOUT_HEADER_REGEX = /^> ?\[!\w+\][-+]?/;
+const CALLOUT_LINE_REGEX = /^> ?(.*)$/;
+const CHECKBOX_REGEX = /^(\s*)- \[/;
+const ESCAPED_CHECKBOX_REGEX = /^(\s*)- \\\[/;
+
+/**
+ * Tidies task notes for comparison: Windows line endings, trailing whitespace and surrounding blank lines are dropped,
+ * as these don't survive a round trip through the notes.
+ */
+const normalizeTaskNotes = (notes: string): string => {
+    return notes.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').replace(/^\n+/, '').replace(/\n+$/, '');
+}
+
+/**
+ * Generates the lines for a task's notes, indented under the task's line as plain text or in a collapsed callout.
+ * In plain text, lines that would read as checklist items are escaped.
+ */
+export const notesPartForTask = (task: HabiticaTask, settings: HabiticaTaskSettings): string[] => {
+    const notes = normalizeTaskNotes(task.notes || '');
+    if (settings.taskNotesStyle === 'off' || !notes) {
+        return [];
+    }
+    const notesLines = notes.split('\n');
+    if (settings.taskNotesStyle === 'callout') {
+        return [NOTES_CALLOUT_HEADER, ...notesLines.map(line => line ? `> ${line}` : '>')]
+            .map(line => `${settings.indentString}${line}`);
+    }
+    return notesLines.map(line => line ? `${settings.indentString}${line.replace(CHECKBOX_REGEX, '$1- \\[')}` : '');
+}
+
+/**
+ * Reads a task's notes back from the lines written by `notesPartForTask`, in either style.
+ */
+const parseNotesLines = (lines: string[], settings: HabiticaTaskSettings): string => {
+    const unindented = lines.map(line => line.startsWith(settings.indentString) ? line.slice(settings.indentString.length) : line.trimStart());
+    const first = unindented.findIndex(line => !isBlankLine(line));
+    if (first !== -1 && CALLOUT_HEADER_REGEX.test(unindented[first])) {
+        return normalizeTaskNotes(unindented.slice(first + 1).map(line => CALLOUT_LINE_REGEX.exec(line)?.[1] ?? line).join('\n'));
+    }
+    return normalizeTaskNotes(unindented.map(line => line.replace(ESCAPED_CHECKBOX_REGEX, '$1- [')).join('\n'));
+}
+
+const MINUTE_IN_MS = 60 * 1000;
+const HOUR_IN_MS = 60 * MINUTE_IN_MS;
+
+/**
+ * Finds the user's offset from UTC at an instant, in minutes behind UTC like `getTimezoneOffset()`.
+ * Habitica only keeps the current offset; while the device is in the same timezone (the usual case),
+ * the device's offset at the instant is used instead, so instants on the other side of a DST change are dated right.
+ * @param instant The instant, in milliseconds.
+ * @param day The user's day preferences.
+ */
+const timezoneOffsetAt = (instant: number, day: HabiticaDayPreferences): number => {
+    return new Date().getTimezoneOffset() === day.timezoneOffset ? new Date(instant).getTimezoneOffset() : day.timezoneOffset;
+}
+
+/**
+ * Dates an instant in the user's Habitica timezone, rather than in UTC or the device's timezone.
+ * @param instant The instant, e.g. an ISO timestamp from Habitica.
+ * @param day The user's day preferences.
+ * @returns The date, as YYYY-MM-DD.
+ */
+export const localDate = (instant: string | number | Date, day: HabiticaDayPreferences): string => {
+    const time = new Date(instant).getTime();
+    return new Date(time - timezoneOffsetAt(time, day) * MINUTE_IN_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Finds the date of the user's current Habitica day, which only ends at their custom day start hour.
+ * @param day The user's day preferences.
+ * @param now The current instant.
+ * @returns The date, as YYYY-MM-DD.
+ */
+export const habiticaToday = (day: HabiticaDayPreferences, now: Date = new Date()): string => {
+    return localDate(now.getTime() - day.dayStart * HOUR_IN_MS, day);
+}
+
+/**
+ * Converts a date from the notes into the instant Habitica stores it as: midnight in the user's timezone.
+ * @param date The date, as YYYY-MM-DD.
+ * @param day The user's day preferences.
+ * @returns The instant, as an ISO timestamp.
+ */
+export const habiticaDateFor = (date: string, day: HabiticaDayPreferences): string => {
+    const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+    // The offset at that midnight, which may differ from today's across a DST change
+    const offset = timezoneOffsetAt(utcMidnight + day.timezoneOffset * MINUTE_IN_MS, day);
+    return new Date(utcMidnight + offset * MINUTE_IN_MS).toISOString();
+}
+
+const isDue = (task: HabiticaTask, day: HabiticaDayPreferences): boolean => {
     if (task.type === 'daily') {
         return task.isDue || false;
     }
     if (task.type === 'todo' && task.date) {
         // Check nextDue
-        if (task.nextDue) {
-            const today = new Date().toISOString().split('T')[0];
-            const nextDueDate = new Date(task.nextDue[0]).toISOString().split('T')[0];
-            return nextDueDate <= today;
-        }
-        const today = new Date().toISOString().split('T')[0];
-        const taskDate = new Date(task.date).toISOString().split('T')[0];
-        return taskDate <= today;
+        const dueDate = task.nextDue ? localDate(task.nextDue[0], day) : localDate(task.date, day);
+        return dueDate <= habiticaToday(day);
     }
     return false;
 };
 
-const taskDueDate = (task: HabiticaTask): string => {
+const earliestNextDue = (task: HabiticaTask, day: HabiticaDayPreferences): string | null => {
+    if (!task.nextDue || task.nextDue.length === 0) {
+        return null;
+    }
+    // TODO: Inefficient, optimize later if needed (lots of Date objects created, make them once on parsing response.)
+    const earliestDue = task.nextDue.reduce((earliest, current) => {
+        return (new Date(current) < new Date(earliest)) ? current : earliest;
+    }, task.nextDue[0]);
+    return localDate(earliestDue, day);
+};
+
+const taskDueDate = (task: HabiticaTask, day: HabiticaDayPreferences): string => {
     if (task.type === 'daily') {
-        return `📅 ${new Date().toISOString().split('T')[0]}`;
+        // Dailies due today are due today; the others are due on their next occurrence
+        if (isDue(task, day)) {
+            return habiticaToday(day);
+        }
     } else if (task.type === 'todo' && task.date) {
-        return `📅 ${new Date(task.date).toISOString().split('T')[0]}`;
+        return localDate(task.date, day);
     }
     // Check nextDue
-    if (task.nextDue && task.nextDue.length > 0) {
-        // TODO: Inefficient, optimize later if needed (lots of Date objects created, make them once on parsing response.)
-        const earliestDue = task.nextDue.reduce((earliest, current) => {
-            return (new Date(current) < new Date(earliest)) ? current : earliest;
-        }, task.nextDue[0]);
-        return `📅 ${new Date(earliestDue).toISOString().split('T')[0]}`;
+    return earliestNextDue(task, day) || '';
+};
+
+const taskDoneDate = (task: HabiticaTask, day: HabiticaDayPreferences): string => {
+    if (task.type !== 'todo' || !task.completed || !task.dateCompleted) {
+        return '';
+    }
+    return localDate(task.dateCompleted, day);
+};
+
+const taskStartDate = (task: HabiticaTask, day: HabiticaDayPreferences): string => {
+    if (task.type !== 'daily' || !task.startDate) {
+        return '';
+    }
+    return localDate(task.startDate, day);
+};
+
+const WEEKDAYS: [keyof HabiticaRepeat, string][] = [
+    ['m', 'Monday'],
+    ['t', 'Tuesday'],
+    ['w', 'Wednesday'],
+    ['th', 'Thursday'],
+    ['f', 'Friday'],
+    ['s', 'Saturday'],
+    ['su', 'Sunday']
+];
+
+const ordinal = (n: number): string => {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const lastTwo = n % 100;
+    return `${n}${suffixes[(lastTwo - 20) % 10] || suffixes[lastTwo] || suffixes[0]}`;
+};
+
+const RECURRENCE_RULE_REGEX = /^every (?:(\d+) )?(day|week|month|year)s?(?: on (?:the )?(.+))?$/;
+const ORDINAL_REGEX = /^(\d+)(?:st|nd|rd|th)(?: (\w+))?$/;
+
+/**
+ * Translates an Obsidian Tasks recurrence rule back into the recurrence of a Habitica daily,
+ * for the rules `recurrenceRuleForTask` writes (e.g. "every 2 weeks on Monday, Friday" or "every month on the 2nd Tuesday").
+ * @param rule The recurrence rule, without the 🔁 emoji.
+ * @returns The daily's recurrence fields, or null if Habitica can't represent the rule.
+ */
+export const repeatForRecurrenceRule = (rule: string): Partial<HabiticaTask> | null => {
+    const match = RECURRENCE_RULE_REGEX.exec(rule.trim().toLowerCase());
+    if (!match) {
+        return null;
+    }
+    const [, everyX, unit, on] = match;
+    const recurrence: Partial<HabiticaTask> = { everyX: everyX ? parseInt(everyX) : 1 };
+    const weekdayKey = (name: string) => WEEKDAYS.find(([, weekday]) => weekday.toLowerCase() === name.trim())?.[0];
+    const repeatOn = (keys: (keyof HabiticaRepeat)[]) =>
+        Object.fromEntries(WEEKDAYS.map(([key]) => [key, keys.includes(key)])) as HabiticaRepeat;
+    switch (unit) {
+        case 'day':
+            return on ? null : { ...recurrence, frequency: 'daily' };
+        case 'week': {
+            const keys = on ? on.split(',').map(weekdayKey) : [];
+            if (keys.length === 0 || keys.some(key => !key)) {
+                return null;
+            }
+            return { ...recurrence, frequency: 'weekly', repeat: repeatOn(keys as (keyof HabiticaRepeat)[]) };
+        }
+        case 'month': {
+            const ordinalMatch = on ? ORDINAL_REGEX.exec(on) : null;
+            if (!ordinalMatch) {
+                return null;
+            }
+            const n = parseInt(ordinalMatch[1]);
+            if (!ordinalMatch[2]) {
+                return { ...recurrence, frequency: 'monthly', daysOfMonth: [n], weeksOfMonth: [] };
+            }
+            const key = weekdayKey(ordinalMatch[2]);
+            return key ? { ...recurrence, frequency: 'monthly', weeksOfMonth: [n - 1], daysOfMonth: [], repeat: repeatOn([key]) } : null;
+        }
+        default:
+            return on ? null : { ...recurrence, frequency: 'yearly' };
+    }
+}
+
+const every = (everyX: number, unit: string): string => {
+    return everyX > 1 ? `every ${everyX} ${unit}s` : `every ${unit}`;
+};
+
+/**
+ * Translates the recurrence of a Habitica daily into an Obsidian Tasks recurrence rule (e.g. "every 2 weeks on Monday").
+ * @param task The Habitica daily.
+ * @returns The recurrence rule, without the 🔁 emoji; empty if the task doesn't recur.
+ */
+export const recurrenceRuleForTask = (task: HabiticaTask): string => {
+    if (task.type !== 'daily' || !task.frequency) {
+        return '';
+    }
+    const everyX = task.everyX ?? 1;
+    if (everyX < 1) {
+        // Habitica treats "every 0 days" as never due
+        return '';
+    }
+    const weekdays = WEEKDAYS.filter(([key]) => task.repeat?.[key]).map(([, name]) => name);
+    switch (task.frequency) {
+        case 'daily':
+            return every(everyX, 'day');
+        case 'weekly':
+            if (weekdays.length === 0) {
+                return '';
+            }
+            if (weekdays.length === WEEKDAYS.length && everyX === 1) {
+                return 'every day';
+            }
+            return `${every(everyX, 'week')} on ${weekdays.join(', ')}`;
+        case 'monthly':
+            if (task.weeksOfMonth && task.weeksOfMonth.length > 0 && weekdays.length > 0) {
+                return `${every(everyX, 'month')} on the ${ordinal(task.weeksOfMonth[0] + 1)} ${weekdays[0]}`;
+            }
+            if (task.daysOfMonth && task.daysOfMonth.length > 0) {
+                return `${every(everyX, 'month')} on the ${ordinal(task.daysOfMonth[0])}`;
+            }
+            return every(everyX, 'month');
+        case 'yearly':
+            return every(everyX, 'year');
+        default:
+            return '';
     }
-    return '';
 };
 
 const TASK_PRIORITIES = [
@@ -131,38 +362,1258 @@ const TASK_PRIORITIES = [
 ] as const;
 type TaskPriorityEmoji = typeof TASK_PRIORITIES[number];
 
-const priorityToEmoji = (priority: number): string => {
-    const intPriority = Math.round(Math.max(0, Math.min(3, priority)));
-    return TASK_PRIORITIES[intPriority] || '';
+// Obsidian Tasks' names for the priorities, in the same order
+const TASK_PRIORITY_NAMES = ['lowest', 'low', 'medium', 'high'] as const;
+
+// Habitica's difficulty values: trivial, easy, medium, hard
+const HABITICA_PRIORITIES = [0.1, 1, 1.5, 2];
+
+const EMOJI_TO_PRIORITY: Record<TaskPriorityEmoji, number> = {
+    "⏬": 0.1,
+    "🔽": 1,
+    "🔼": 1.5,
+    "⏫": 2
+};
+
+// Tasks' priorities with no Habitica difficulty of their own: highest reads as hard, normal (no emoji) as easy
+const HIGHEST_PRIORITY_EMOJI = '🔺';
+const EXTRA_PRIORITY_NAMES: Record<string, number> = { highest: 2, normal: 1 };
+
+/**
+ * Finds the Habitica difficulty closest to a task's priority value.
+ * @returns The index of the difficulty, into `TASK_PRIORITIES` and `TASK_PRIORITY_NAMES`.
+ */
+const priorityIndex = (priority: number): number => {
+    return HABITICA_PRIORITIES.reduce((closest, value, i) =>
+        Math.abs(value - priority) < Math.abs(HABITICA_PRIORITIES[closest] - priority) ? i : closest, 0);
+};
+
+
+const NOT_DUE_MARKER = '💤';
+const CHALLENGE_MARKER = '🏆';
+const GROUP_MARKER = '👥';
+const BROKEN_MARKER = '⚠\uFE0F';
+
+/**
+ * Whether Habitica only lets the user change a task's notes, tags, checklist and completion:
+ * challenge tasks (until their challenge breaks) and tasks assigned through a group.
+ */
+export const isReadOnlyTask = (task: HabiticaTask): boolean => {
+    return (!!task.challenge?.id && !task.challenge.broken) || !!task.group?.id;
+}
+
+/**
+ * Marks tasks that come from a challenge or group, and challenge tasks whose challenge broke.
+ */
+const originMarkerForTask = (task: HabiticaTask): string => {
+    if (task.challenge?.id) {
+        return task.challenge.broken ? `${CHALLENGE_MARKER}${BROKEN_MARKER}` : CHALLENGE_MARKER;
+    }
+    return task.group?.id ? GROUP_MARKER : '';
+}
+
+/**
+ * Describes where a group task stands with approval: 'pending' once requested, 'approved', or empty if it needs none yet.
+ */
+const approvalStateForTask = (task: HabiticaTask): string => {
+    const approval = task.group?.approval;
+    if (!approval?.required) {
+        return '';
+    }
+    return approval.approved ? 'approved' : approval.requested ? 'pending' : '';
+}
+
+/**
+ * Titles the section of the notes a task is listed in: the challenge or group it comes from.
+ * @param context The names of the user's challenges and groups.
+ * @returns The section heading's text, or an empty string for the user's own tasks.
+ */
+export const groupHeadingForTask = (task: HabiticaTask, context: HabiticaRenderContext): string => {
+    if (task.challenge?.id) {
+        return `${CHALLENGE_MARKER} ${context.groupNames[task.challenge.id] || task.challenge.shortName || 'Challenge'}`;
+    }
+    if (task.group?.id) {
+        return `${GROUP_MARKER} ${context.groupNames[task.group.id] || 'Group'}`;
+    }
+    return '';
+}
+
+const checklistProgressForTask = (task: HabiticaTask): string => {
+    if (!task.collapseChecklist || !task.checklist || task.checklist.length === 0) {
+        return '';
+    }
+    const done = task.checklist.filter(item => item.completed).length;
+    return `${done}/${task.checklist.length}`;
 };
 
+/**
+ * Picks the task line template for the settings: the chosen preset's, or the user's own.
+ */
+export const lineTemplateFor = (settings: HabiticaTaskSettings): string => {
+    return settings.taskLinePreset === 'custom' ? settings.taskLineTemplate : TaskLinePresets[settings.taskLinePreset];
+}
 
-export const emojiPartForTask = (task: HabiticaTask, settings: HabiticaTaskSettings): string => {
-    // First pick emoji based on task type
-    const duePart = taskDueDate(task);
-    const priorityPart = priorityToEmoji(task.priority);
+/**
+ * Computes the value of every task line template placeholder for a task. Placeholders that don't apply are empty.
+ * @param task The Habitica task.
+ * @param context The user's tag, challenge and group names and day preferences, to render the task's tags, origin and dates with.
+ * @returns The value of each placeholder.
+ */
+export const templateValuesForTask = (
+    task: HabiticaTask,
+    settings: HabiticaTaskSettings,
+    context: HabiticaRenderContext
+): Record<TemplatePlaceholder, string> => {
+    const priority = priorityIndex(task.priority);
+    return {
+        text: task.text,
+        tag: settings.globalTaskTag || '',
+        tags: tagPartForTask(task, settings, context),
+        priority: TASK_PRIORITY_NAMES[priority],
+        priorityEmoji: TASK_PRIORITIES[priority],
+        due: taskDueDate(task, context.day),
+        start: taskStartDate(task, context.day),
+        done: taskDoneDate(task, context.day),
+        recurrence: recurrenceRuleForTask(task),
+        id: task.id,
+        attribute: task.attribute,
+        streak: task.type === 'daily' && task.streak ? task.streak.toString() : '',
+        checklist: checklistProgressForTask(task),
+        // Dailies not due today are still shown, but marked
+        notDue: task.type === 'daily' && !isDue(task, context.day) ? NOT_DUE_MARKER : '',
+        origin: originMarkerForTask(task),
+        approval: approvalStateForTask(task)
+    };
+}
+
+const DATE_PATTERN = '\\d{4}-\\d{2}-\\d{2}';
 
-    return `${priorityPart} ${duePart}`.trim();
+/**
+ * Builds the regular expression (source) matching each placeholder's values, for parsing lines rendered from a template.
+ */
+const templatePatterns = (settings: HabiticaTaskSettings): Record<TemplatePlaceholder, string> => {
+    const tagPattern = `#${escapeRegExp(settings.tagPrefix)}[\\p{L}\\p{N}_/-]+`;
+    return {
+        text: '.+?',
+        tag: settings.globalTaskTag ? escapeRegExp(settings.globalTaskTag) : '(?!)',
+        tags: `${tagPattern}(?:\\s+${tagPattern})*`,
+        priority: [...TASK_PRIORITY_NAMES, ...Object.keys(EXTRA_PRIORITY_NAMES)].join('|'),
+        priorityEmoji: [...TASK_PRIORITIES, HIGHEST_PRIORITY_EMOJI].join('|'),
+        due: DATE_PATTERN,
+        start: DATE_PATTERN,
+        done: DATE_PATTERN,
+        recurrence: 'every [A-Za-z0-9, ]+?',
+        id: '[0-9A-Za-z-]+',
+        attribute: 'str|int|con|per',
+        streak: '\\d+',
+        checklist: '\\d+/\\d+',
+        notDue: NOT_DUE_MARKER,
+        origin: `${CHALLENGE_MARKER}(?:${BROKEN_MARKER})?|${GROUP_MARKER}`,
+        approval: 'pending|approved'
+    };
+}
+
+// The fields Obsidian Tasks reads from the end of a line, in any order, as its edit modal writes them.
+// ⏳ scheduled, ➕ created and ❌ cancelled dates have no Habitica equivalent, so they're read but dropped.
+const TASKS_FIELD_REGEXES: [TemplatePlaceholder | null, RegExp][] = [
+    ['priorityEmoji', new RegExp(`\\s*(${[...TASK_PRIORITIES, HIGHEST_PRIORITY_EMOJI].join('|')})\uFE0F?$`, 'u')],
+    ['recurrence', /\s*🔁\s*(every [A-Za-z0-9, !]+)$/u],
+    ['start', /\s*🛫\s*(\d{4}-\d{2}-\d{2})$/u],
+    [null, /\s*[⏳⌛]\s*\d{4}-\d{2}-\d{2}$/u],
+    [null, /\s*➕\s*\d{4}-\d{2}-\d{2}$/u],
+    ['due', /\s*(?:📅|📆|🗓\uFE0F?)\s*(\d{4}-\d{2}-\d{2})$/u],
+    ['done', /\s*✅\s*(\d{4}-\d{2}-\d{2})$/u],
+    [null, /\s*❌\s*\d{4}-\d{2}-\d{2}$/u],
+    ['checklist', /\s*📋\s*(\d+\/\d+)$/u],
+    ['streak', /\s*🔥\s*(\d+)$/u],
+    ['notDue', new RegExp(`\\s*(${NOT_DUE_MARKER})$`, 'u')],
+    ['approval', /\s*🙋\s*(pending|approved)$/u],
+    ['origin', new RegExp(`\\s*(${CHALLENGE_MARKER}(?:${BROKEN_MARKER})?|${GROUP_MARKER})$`, 'u')]
+];
+
+/**
+ * Reads a line the way Obsidian Tasks does: its fields are peeled off the end of the line in any order,
+ * along with any Habitica tags between them. Used for lines that no longer match the task line template,
+ * e.g. after Tasks' edit modal rewrote them.
+ * @param text The line's text, without the checkbox and block ID.
+ * @returns The values read; the Tasks fields Habitica has an equivalent for are empty if absent.
+ */
+const parseTasksFields = (text: string, settings: HabiticaTaskSettings): Partial<Record<TemplatePlaceholder, string>> => {
+    const fields: Partial<Record<TemplatePlaceholder, string>> = { priorityEmoji: '', recurrence: '', start: '', due: '', done: '' };
+    const tags: string[] = [];
+    const tagRegex = new RegExp(`\\s*(#${escapeRegExp(settings.tagPrefix)}[\\p{L}\\p{N}_/-]+)$`, 'u');
+    let remaining = text.trim();
+    if (settings.globalTaskTag) {
+        remaining = remaining.replace(new RegExp(`^${escapeRegExp(settings.globalTaskTag)}\\b`), '');
+    }
+    for (let found = true; found;) {
+        found = false;
+        const tagMatch = tagRegex.exec(remaining);
+        if (tagMatch) {
+            tags.unshift(tagMatch[1]);
+            remaining = remaining.slice(0, tagMatch.index);
+            found = true;
+            continue;
+        }
+        for (const [name, regex] of TASKS_FIELD_REGEXES) {
+            const match = regex.exec(remaining);
+            if (!match) {
+                continue;
+            }
+            if (name) {
+                fields[name] = match[1];
+            }
+            remaining = remaining.slice(0, match.index);
+            found = true;
+            break;
+        }
+    }
+    return { ...fields, text: remaining.trim(), tags: tags.join(' ') };
+}
+
+/**
+ * Reads the Habitica difficulty from a parsed line's priority, written as a Tasks emoji or a Tasks priority name.
+ * @param fields The values read from the line.
+ * @returns The difficulty, or undefined if the line's format doesn't include a priority.
+ */
+export const priorityFromFields = (fields: Partial<Record<TemplatePlaceholder, string>>): number | undefined => {
+    if (fields.priorityEmoji !== undefined) {
+        if (fields.priorityEmoji === HIGHEST_PRIORITY_EMOJI) {
+            return EXTRA_PRIORITY_NAMES.highest;
+        }
+        return EMOJI_TO_PRIORITY[fields.priorityEmoji as TaskPriorityEmoji] ?? EXTRA_PRIORITY_NAMES.normal;
+    }
+    if (fields.priority !== undefined) {
+        const index = TASK_PRIORITY_NAMES.indexOf(fields.priority as typeof TASK_PRIORITY_NAMES[number]);
+        return index === -1 ? EXTRA_PRIORITY_NAMES[fields.priority] ?? EXTRA_PRIORITY_NAMES.normal : HABITICA_PRIORITIES[index];
+    }
+    return undefined;
+}
+
+/**
+ * Turns a Habitica tag name into a valid Obsidian tag name:
+ * whitespace becomes dashes, and characters Obsidian doesn't allow in tags are dropped.
+ * @param name The Habitica tag name.
+ * @returns The sanitized name; empty if nothing of the name is left.
+ */
+export const sanitizeTagName = (name: string): string => {
+    return name.trim().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_/-]/gu, '');
+}
+
+/**
+ * Resolves a task's tag IDs to the sanitized names its Obsidian tags are written with.
+ * Tags missing from the user's tag list, or whose names sanitize to nothing, are left out.
+ */
+export const tagNamesForTask = (task: HabiticaTask, context: HabiticaRenderContext): string[] => {
+    return (task.tags || [])
+        .map(tagId => sanitizeTagName(context.tagNames[tagId] || ''))
+        .filter(name => name);
+}
+
+const tagPartForTask = (task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    return tagNamesForTask(task, context).map(name => `#${settings.tagPrefix}${name}`).join(' ');
+}
+
+/**
+ * Pulls the Habitica tags (i.e. the Obsidian tags carrying the tag prefix) out of a line's text.
+ * @returns The text without the tags, and the tag names without the prefix.
+ */
+const extractTags = (text: string, settings: HabiticaTaskSettings): { text: string, tags: string[] } => {
+    const tags: string[] = [];
+    const tagRegex = new RegExp(`(^|\\s+)#${escapeRegExp(settings.tagPrefix)}([\\p{L}\\p{N}_/-]+)`, 'gu');
+    const stripped = text.replace(tagRegex, (_match, _space, name: string) => {
+        tags.push(name);
+        return '';
+    });
+    return { text: stripped.trim(), tags };
+}
+
+// Obsidian URI action handled by the plugin, e.g. obsidian://habitica-resync?action=score&id=...&direction=up
+// or obsidian://habitica-resync?action=buy&id=...
+export const HABITICA_URI_ACTION = 'habitica-resync';
+
+/**
+ * Builds an Obsidian URI that scores a task when clicked.
+ * @param taskId The ID of the task to score.
+ * @param direction The direction to score the task in.
+ * @returns The Obsidian URI.
+ */
+export const scoreUriForTask = (taskId: string, direction: ScoreDirection): string => {
+    return `obsidian://${HABITICA_URI_ACTION}?action=score&id=${encodeURIComponent(taskId)}&direction=${direction}`;
+}
+
+/**
+ * Builds an Obsidian URI that buys a reward when clicked.
+ * @param taskId The ID of the reward to buy.
+ * @returns The Obsidian URI.
+ */
+export const buyUriForTask = (taskId: string): string => {
+    return `obsidian://${HABITICA_URI_ACTION}?action=buy&id=${encodeURIComponent(taskId)}`;
+}
+
+/**
+ * Formats an amount of gold the way Habitica shows it, i.e. rounded down to whole coins.
+ */
+export const formatGold = (gold: number): string => {
+    return Math.floor(gold).toString();
+}
+
+// Mirrors the colours Habitica gives tasks, from worst to best value
+const HABIT_VALUE_INDICATORS: [number, string][] = [
+    [-10, '🔴'],
+    [-1, '🟠'],
+    [1, '🟡'],
+    [5, '🟢'],
+    [Infinity, '🔵']
+];
+
+export const habitValueIndicator = (value: number): string => {
+    const indicator = HABIT_VALUE_INDICATORS.find(([threshold]) => value < threshold);
+    return indicator ? indicator[1] : '';
+};
+
+/**
+ * Generates the markdown line for a Habitica habit.
+ * Habits can't be completed, so instead of a checkbox the line shows a colour indicator for the habit's value,
+ * and a clickable control with the counter for each enabled direction.
+ * @param task The Habitica habit to convert to a markdown line.
+ * @returns The markdown line for the habit.
+ */
+export const habitLineForTask = (task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    const controls: string[] = [];
+    if (task.up) {
+        controls.push(`[➕ ${task.counterUp || 0}](${scoreUriForTask(task.id, 'up')})`);
+    }
+    if (task.down) {
+        controls.push(`[➖ ${task.counterDown || 0}](${scoreUriForTask(task.id, 'down')})`);
+    }
+    return ['-', habitValueIndicator(task.value), task.text, tagPartForTask(task, settings, context), ...controls, blockIdFor(task.id)].filter(part => part).join(' ');
+}
+
+/**
+ * Generates the markdown line for a Habitica reward: its cost, text and a clickable control to buy it.
+ * @param task The Habitica reward to convert to a markdown line.
+ * @returns The markdown line for the reward.
+ */
+export const rewardLineForTask = (task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    return ['-', `💰 ${task.value}`, task.text, tagPartForTask(task, settings, context), `[Buy](${buyUriForTask(task.id)})`, blockIdFor(task.id)].filter(part => part).join(' ');
 }
 
 /**
  * Generates the primary markdown line for a Habitica task.
- * This line includes the completion checkbox, an emoji representing the task type, and the task text.
+ * This line includes the completion checkbox, the task rendered with the task line template
+ * (by default, its text, tags and Obsidian Tasks emojis), and a block ID linking the line back to the task.
  * @param task The Habitica task to convert to a markdown line.
  * @returns The primary markdown line for the task.
  */
-export const primaryLineForTask = (task: HabiticaTask, settings: HabiticaTaskSettings): string => {
+export const primaryLineForTask = (task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
     const completed = task.completed ? '- [x]' : '- [ ]';
-    const emojiPart = emojiPartForTask(task, settings);
-    const tagPart = settings.globalTaskTag ? `${settings.globalTaskTag}` : '';
-    return `${completed} ${tagPart} ${task.text} ${emojiPart}`;
+    const templatePart = renderTemplate(lineTemplateFor(settings), templateValuesForTask(task, settings, context));
+    return [completed, templatePart, blockIdFor(task.id)].filter(part => part).join(' ');
 }
 
 /**
  * Converts a Habitica task to a markdown note.
  * @param task The Habitica task to convert.
+ * @param context The user's tag names and day preferences, to render the task's tags and dates with.
  * @returns The markdown-formatted string for the task.
  */
-export const taskToNoteLines = (task: HabiticaTask, settings: HabiticaTaskSettings): string => {
-    return [primaryLineForTask(task, settings), ...checklistPartForTask(task, settings)].join('\n');
+export const taskToNoteLines = (task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    if (task.type === 'habit') {
+        return [habitLineForTask(task, settings, context), ...notesPartForTask(task, settings)].join('\n');
+    }
+    if (task.type === 'reward') {
+        return [rewardLineForTask(task, settings, context), ...notesPartForTask(task, settings)].join('\n');
+    }
+    return [primaryLineForTask(task, settings, context), ...notesPartForTask(task, settings), ...checklistPartForTask(task, settings)].join('\n');
+}
+
+// Characters not allowed in file names on some platforms, or with a meaning in Obsidian links
+const NOTE_NAME_FORBIDDEN_REGEX = /[\\/:*?"<>|#^[\]]/g;
+const MAX_NOTE_NAME_LENGTH = 100;
+
+/**
+ * Builds the name of a task's note in the one-note-per-task layout from its text.
+ * @param task The Habitica task.
+ * @returns The note name, without extension; the task ID if nothing of the text is left.
+ */
+export const noteNameForTask = (task: HabiticaTask): string => {
+    const name = task.text
+        .replace(NOTE_NAME_FORBIDDEN_REGEX, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, MAX_NOTE_NAME_LENGTH)
+        .replace(/[\s.]+$/, '');
+    return name || task.id;
+}
+
+/**
+ * Builds the properties of a task's note in the one-note-per-task layout, for querying tasks with Dataview or Bases.
+ * Properties that don't apply to the task are undefined, so they can be removed from the note.
+ * @param task The Habitica task.
+ * @param context The user's tag, challenge and group names and day preferences, to list the task's tags, origin and dates with.
+ * @returns The properties, keyed by name.
+ */
+export const frontmatterForTask = (
+    task: HabiticaTask,
+    settings: HabiticaTaskSettings,
+    context: HabiticaRenderContext
+): Record<string, string | number | boolean | string[] | undefined> => {
+    const toDate = (date: string) => localDate(date, context.day);
+    const canComplete = task.type === 'todo' || task.type === 'daily';
+    return {
+        id: task.id,
+        type: task.type,
+        attribute: task.attribute,
+        priority: task.priority,
+        completed: canComplete ? task.completed || false : undefined,
+        created: toDate(task.createdAt),
+        start: task.type === 'daily' && task.startDate ? toDate(task.startDate) : undefined,
+        due: task.type === 'todo' && task.date ? toDate(task.date) : undefined,
+        // Obsidian tags, as in the task's line
+        tags: tagNamesForTask(task, context).map(name => `${settings.tagPrefix}${name}`),
+        streak: task.type === 'daily' ? task.streak || 0 : undefined,
+        challenge: task.challenge?.id ? context.groupNames[task.challenge.id] || task.challenge.shortName || task.challenge.id : undefined,
+        challengeBroken: task.challenge?.broken ? true : undefined,
+        group: task.group?.id ? context.groupNames[task.group.id] || task.group.id : undefined,
+        approval: approvalStateForTask(task) || undefined
+    };
+}
+
+export type ParsedTaskLine = {
+    id?: string // Absent if the line isn't linked to a Habitica task (yet)
+    completed: boolean
+    text: string
+    tags?: string[] // Tag names without the tag prefix; absent for checklist items
+    fields?: Partial<Record<TemplatePlaceholder, string>> // Values read through the task line template; absent for checklist items
+}
+
+export type ParsedNoteTask = ParsedTaskLine & {
+    checklist: ParsedTaskLine[]
+    notes?: string // Absent if notes aren't written to the notes
+}
+
+const TASK_LINE_REGEX = /^(\s*)- \[([ xX])\] ?(.*)$/;
+const CONTROL_LINE_REGEX = new RegExp(`^- (?:(?:${HABIT_VALUE_INDICATORS.map(([, indicator]) => indicator).join('|')}|💰 [\\d.]+) )?(.*)$`, 'u');
+const CONTROL_REGEX = /\s*\[(?:[➕➖] \d+|Buy)\]\(obsidian:\/\/[^)]*\)/gu;
+
+/**
+ * Parses a habit or reward line written by `habitLineForTask` or `rewardLineForTask` back into its task ID and text.
+ * Only lines linked to a Habitica task are considered, as these lines have no checkbox to tell them apart.
+ */
+const parseControlLine = (line: string, settings: HabiticaTaskSettings): (ParsedTaskLine & { indented: boolean }) | null => {
+    const match = CONTROL_LINE_REGEX.exec(line);
+    const blockIdMatch = match ? BLOCK_ID_REGEX.exec(match[1]) : null;
+    if (!match || !blockIdMatch) {
+        return null;
+    }
+    const { text, tags } = extractTags(match[1].slice(0, blockIdMatch.index).replace(CONTROL_REGEX, ''), settings);
+    return {
+        id: blockIdMatch[1],
+        completed: false,
+        text,
+        tags,
+        indented: false
+    };
+}
+
+/**
+ * Parses a task line written by `primaryLineForTask`, `checklistPartForTask`, `habitLineForTask` or `rewardLineForTask`
+ * back into its task ID, completion state, text and tags.
+ * Top-level lines are read through the task line template; lines that no longer match it are read like Obsidian Tasks would.
+ * Every placeholder of the template (or Tasks field) that the line leaves out is read as empty.
+ * @param line The markdown line to parse.
+ * @returns The parsed line and whether it is indented (i.e. a checklist item), or null if the line is not a task line.
+ */
+export const parseTaskLine = (line: string, settings: HabiticaTaskSettings): (ParsedTaskLine & { indented: boolean }) | null => {
+    const match = TASK_LINE_REGEX.exec(line);
+    if (!match) {
+        return parseControlLine(line, settings);
+    }
+    const indented = match[1].length > 0;
+    let text = match[3].trim();
+    let id: string | undefined;
+    let tags: string[] | undefined;
+    let fields: Partial<Record<TemplatePlaceholder, string>> | undefined;
+    const blockIdMatch = BLOCK_ID_REGEX.exec(text);
+    if (blockIdMatch) {
+        id = blockIdMatch[1];
+        text = text.slice(0, blockIdMatch.index);
+    }
+    // Checklist items only carry their text
+    if (!indented) {
+        const template = lineTemplateFor(settings);
+        const matched = matchTemplate(template, templatePatterns(settings), text, ['text']);
+        // The template's text can take in anything, including the fields Tasks moved out of the template's order
+        const misread = matched && TASKS_FIELD_REGEXES.some(([, regex]) => regex.test(matched.text.trimEnd()));
+        fields = matched && !misread
+            ? { ...Object.fromEntries(templatePlaceholderNames(template).map(name => [name, ''])), ...matched }
+            : parseTasksFields(text, settings);
+        ({ text, tags } = extractTags([fields.text, fields.tags].filter(part => part).join(' '), settings));
+    }
+    return {
+        ...(id ? { id } : {}),
+        completed: match[2] !== ' ',
+        text: text.trim(),
+        ...(tags ? { tags } : {}),
+        ...(fields ? { fields } : {}),
+        indented
+    };
+}
+
+const isBlankLine = (line: string): boolean => line.trim() === '';
+
+/**
+ * Finds where the block of the task on the given line ends.
+ * A task's block is its line and the indented lines below it (its notes and checklist), including blank lines between them.
+ * With notes turned off, only indented checklist lines belong to the block, so indented text the user wrote is left alone.
+ * @param lines The lines of the note.
+ * @param start The index of the task's line.
+ * @returns The index of the first line after the block.
+ */
+const taskBlockEnd = (lines: string[], start: number, settings: HabiticaTaskSettings): number => {
+    let end = start + 1;
+    if (settings.taskNotesStyle === 'off') {
+        while (end < lines.length && parseTaskLine(lines[end], settings)?.indented) {
+            end++;
+        }
+        return end;
+    }
+    let next = end;
+    while (next < lines.length && (isBlankLine(lines[next]) || /^\s/.test(lines[next]))) {
+        if (!isBlankLine(lines[next])) {
+            end = next + 1;
+        }
+        next++;
+    }
+    return end;
+}
+
+/**
+ * Parses the block of the task on the given line: the task line, its notes and its checklist.
+ * @param lines The lines of the note.
+ * @param start The index of the task's line.
+ * @returns The parsed task and the index of the first line after its block, or null if the line isn't a top-level task line.
+ */
+const parseTaskBlock = (lines: string[], start: number, settings: HabiticaTaskSettings): { task: ParsedNoteTask, end: number } | null => {
+    const parsedLine = parseTaskLine(lines[start], settings);
+    if (!parsedLine || parsedLine.indented) {
+        return null;
+    }
+    const task: ParsedNoteTask = {
+        ...(parsedLine.id ? { id: parsedLine.id } : {}),
+        completed: parsedLine.completed,
+        text: parsedLine.text,
+        ...(parsedLine.tags ? { tags: parsedLine.tags } : {}),
+        ...(parsedLine.fields ? { fields: parsedLine.fields } : {}),
+        checklist: []
+    };
+    const end = taskBlockEnd(lines, start, settings);
+    const notesLines: string[] = [];
+    for (const line of lines.slice(start + 1, end)) {
+        const checklistLine = parseTaskLine(line, settings);
+        if (checklistLine?.indented) {
+            task.checklist.push({ ...(checklistLine.id ? { id: checklistLine.id } : {}), completed: checklistLine.completed, text: checklistLine.text });
+        } else {
+            notesLines.push(line);
+        }
+    }
+    if (settings.taskNotesStyle !== 'off') {
+        task.notes = parseNotesLines(notesLines, settings);
+    }
+    return { task, end };
+}
+
+/**
+ * Parses a note back into its tasks, including their notes and checklists.
+ * @param content The content of the note.
+ * @returns The parsed tasks, in order of appearance.
+ */
+export const parseNoteTasks = (content: string, settings: HabiticaTaskSettings): ParsedNoteTask[] => {
+    const parsed: ParsedNoteTask[] = [];
+    const lines = content.split('\n');
+    let i = 0;
+    while (i < lines.length) {
+        const block = parseTaskBlock(lines, i, settings);
+        if (!block) {
+            i++;
+            continue;
+        }
+        parsed.push(block.task);
+        i = block.end;
+    }
+    return parsed;
+}
+
+/**
+ * Captures the parts of a task that are written to the notes, to compare against on the next push.
+ * @param task The Habitica task to snapshot.
+ * @param context The user's tag names and day preferences, to snapshot the task's tags and dates as written.
+ * @returns The synced state of the task.
+ */
+export const snapshotForTask = (task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): SyncedTaskState => {
+    return {
+        id: task.id,
+        type: task.type,
+        text: task.text,
+        completed: task.completed || false,
+        // Collapsed checklists aren't written to the notes
+        checklist: (task.checklist && !task.collapseChecklist ? task.checklist : []).map(item => ({
+            id: item.id,
+            text: item.text,
+            completed: item.completed
+        })),
+        tags: tagNamesForTask(task, context),
+        ...(settings.taskNotesStyle !== 'off' ? { notes: normalizeTaskNotes(task.notes || '') } : {}),
+        priority: HABITICA_PRIORITIES[priorityIndex(task.priority)],
+        ...(task.type === 'todo' ? { due: taskDueDate(task, context.day) } : {}),
+        ...(task.type === 'daily' ? { start: taskStartDate(task, context.day), recurrence: recurrenceRuleForTask(task) } : {}),
+        ...(isReadOnlyTask(task) ? { readOnly: true } : {}),
+        ...(task.group?.approval?.required ? { needsApproval: true } : {}),
+        updatedAt: task.updatedAt
+    };
+}
+
+/**
+ * Sums up everything task lines are rendered with beyond the tasks themselves: the settings shaping the lines,
+ * the names of tags, challenges and groups, and the current Habitica day (which moves dailies' due dates).
+ * While it stays the same, tasks unchanged on Habitica render the same lines.
+ * @param context The render context.
+ * @returns An opaque signature, to compare against the last one.
+ */
+export const renderSignatureFor = (settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    return JSON.stringify([
+        lineTemplateFor(settings), settings.globalTaskTag, settings.tagPrefix, settings.taskNotesStyle, settings.indentString,
+        context.tagNames, context.groupNames, context.day, habiticaToday(context.day)
+    ]);
+}
+
+/**
+ * What a pull brought in, by task text.
+ */
+export type SyncSummary = {
+    added: string[]
+    changed: string[]
+    completed: string[]
+    removed: string[]
+}
+
+/**
+ * Compares the tasks Habitica had at the last pull with those it has now.
+ * @param previous The state of each task at the last pull, keyed by task ID.
+ * @param current The state of each task now, keyed by task ID.
+ * @param completedIds The tasks that are gone because they were completed (i.e. todos), rather than deleted.
+ * @returns The tasks added, changed, completed and removed since.
+ */
+export const summarizeSync = (
+    previous: Record<string, SyncedTaskState>,
+    current: Record<string, SyncedTaskState>,
+    completedIds: Set<string>
+): SyncSummary => {
+    const summary: SyncSummary = { added: [], changed: [], completed: [], removed: [] };
+    for (const [id, task] of Object.entries(current)) {
+        const before = previous[id];
+        if (!before) {
+            summary.added.push(task.text);
+        } else if (task.completed && !before.completed) {
+            summary.completed.push(task.text);
+        } else if (before.updatedAt && task.updatedAt ? before.updatedAt !== task.updatedAt : !sameTaskState(before, task)) {
+            summary.changed.push(task.text);
+        }
+    }
+    for (const [id, task] of Object.entries(previous)) {
+        if (!(id in current)) {
+            (completedIds.has(id) ? summary.completed : summary.removed).push(task.text);
+        }
+    }
+    return summary;
+}
+
+/**
+ * Describes a sync summary in a few words, e.g. "2 added, 1 completed".
+ */
+export const describeSyncSummary = (summary: SyncSummary): string => {
+    const parts = (['added', 'changed', 'completed', 'removed'] as const)
+        .filter(kind => summary[kind].length > 0)
+        .map(kind => `${summary[kind].length} ${kind}`);
+    return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
+
+/**
+ * Lists the changes a push would send to Habitica for a task, as shown in the sync preview and history.
+ * Compares what `pushChangesToHabitica` compares. Field edits Habitica won't take (those of challenge and group tasks)
+ * are listed as reverted, since the push puts back Habitica's values instead.
+ * @param synced The task's last synced state.
+ * @param line The task's parsed line.
+ * @returns A short description of each change, e.g. "completed" or "due 2026-01-02 → 2026-01-05".
+ */
+export const describePushChanges = (synced: SyncedTaskState, line: ParsedNoteTask): string[] => {
+    const changes: string[] = [];
+    if (line.tags && synced.tags && !sameTags(line.tags, synced.tags)) {
+        changes.push(`tags ${synced.tags.join(', ') || '(none)'} → ${line.tags.join(', ') || '(none)'}`);
+    }
+    if (line.notes !== undefined && synced.notes !== undefined && line.notes !== synced.notes) {
+        changes.push('notes edited');
+    }
+    if (synced.type !== TaskTypes.todo && synced.type !== TaskTypes.daily) {
+        return changes;
+    }
+    const fields = line.fields || {};
+    const fieldChanges: string[] = [];
+    const priority = priorityFromFields(fields);
+    if (priority !== undefined && synced.priority !== undefined && priority !== synced.priority) {
+        fieldChanges.push('difficulty changed');
+    }
+    if (fields.due !== undefined && synced.due !== undefined && fields.due !== synced.due) {
+        fieldChanges.push(`due ${synced.due || '(none)'} → ${fields.due || '(none)'}`);
+    }
+    if (fields.start && synced.start !== undefined && fields.start !== synced.start) {
+        fieldChanges.push(`start ${synced.start} → ${fields.start}`);
+    }
+    if (fields.recurrence !== undefined && synced.recurrence !== undefined && fields.recurrence !== synced.recurrence
+        && repeatForRecurrenceRule(fields.recurrence)) {
+        fieldChanges.push(`repeat ${fields.recurrence || 'never'}`);
+    }
+    if (synced.readOnly && fieldChanges.length > 0) {
+        changes.push('difficulty, dates and repeat reverted (set by the challenge or group)');
+    } else {
+        changes.push(...fieldChanges);
+    }
+    if (synced.checklist && !sameChecklist(line.checklist, synced.checklist)) {
+        changes.push('checklist edited');
+    }
+    if (synced.completed !== line.completed) {
+        changes.push(line.completed ? 'completed' : 'reopened');
+    }
+    return changes;
+}
+
+/**
+ * Compares two versions of a note line by line, for the sync preview.
+ * @param before The note's current content; empty for a note yet to be created.
+ * @param after The note's new content.
+ * @returns The removed lines prefixed with "- " and the added ones with "+ ", in order; unchanged lines are left out.
+ */
+export const diffLines = (before: string, after: string): string[] => {
+    const a = before === '' ? [] : before.split('\n');
+    const b = after === '' ? [] : after.split('\n');
+    // Unchanged lines at either end don't need the (quadratic) comparison below
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let end = 0;
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+        end++;
+    }
+    const aMiddle = a.slice(start, a.length - end);
+    const bMiddle = b.slice(start, b.length - end);
+    // Length of the longest common subsequence of the lines from i and j on
+    const lengths = Array.from({ length: aMiddle.length + 1 }, () => new Array<number>(bMiddle.length + 1).fill(0));
+    for (let i = aMiddle.length - 1; i >= 0; i--) {
+        for (let j = bMiddle.length - 1; j >= 0; j--) {
+            lengths[i][j] = aMiddle[i] === bMiddle[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const diff: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < aMiddle.length || j < bMiddle.length) {
+        if (i < aMiddle.length && j < bMiddle.length && aMiddle[i] === bMiddle[j]) {
+            i++;
+            j++;
+        } else if (j === bMiddle.length || (i < aMiddle.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+            diff.push(`- ${aMiddle[i++]}`);
+        } else {
+            diff.push(`+ ${bMiddle[j++]}`);
+        }
+    }
+    return diff;
+}
+
+/**
+ * A change a sync would make, as shown in its preview for the user to approve.
+ */
+export type SyncOperation = {
+    key: string // 'push:' and the task ID, 'pull:' and the note path, or 'pending:' and the operation ID; syncs are limited to the approved keys
+    description: string // e.g. 'Push "Buy milk": completed' or 'Update HabiticaTasks/todo.md'
+    diff: string[] // The note lines removed and added, as from `diffLines`; empty for pushes
+    required?: boolean // Whether it can't be left out, e.g. writes left pending, which go before any other write
+}
+
+/**
+ * One sync, as recorded in the sync history note.
+ */
+export type SyncHistoryEntry = {
+    time: string // When the sync started, as an ISO string
+    operations: string[] // What the sync did, e.g. 'Pushed "Buy milk": completed'
+    errors: string[]
+}
+
+const HISTORY_HEADING_PREFIX = '## ';
+
+/**
+ * Adds a sync to the top of the sync history note, dropping the oldest syncs beyond the limit.
+ * Anything before the first sync (e.g. a title) is kept.
+ * @param content The history note's current content.
+ * @param entry The sync to add.
+ * @param limit How many syncs to keep.
+ * @returns The new content of the history note.
+ */
+export const addSyncHistoryEntry = (content: string, entry: SyncHistoryEntry, limit: number): string => {
+    const lines = content.split('\n');
+    let firstHeading = lines.findIndex(line => line.startsWith(HISTORY_HEADING_PREFIX));
+    if (firstHeading === -1) {
+        firstHeading = lines.length;
+    }
+    const preamble = lines.slice(0, firstHeading).join('\n').trimEnd();
+    const sections: string[][] = [];
+    for (const line of lines.slice(firstHeading)) {
+        if (line.startsWith(HISTORY_HEADING_PREFIX)) {
+            sections.push([]);
+        }
+        sections[sections.length - 1].push(line);
+    }
+    const operations = entry.operations.length > 0 ? entry.operations : ['No changes'];
+    const section = [
+        `${HISTORY_HEADING_PREFIX}${new Date(entry.time).toLocaleString()}`,
+        ...operations.map(operation => `- ${operation}`),
+        ...entry.errors.map(error => `- ⚠️ ${error}`),
+        ''
+    ];
+    const kept = [section, ...sections].slice(0, limit).map(lines => lines.join('\n').trimEnd());
+    return [...(preamble ? [preamble] : []), ...kept].join('\n\n') + '\n';
+}
+
+type ComparableTaskState = {
+    text: string
+    completed: boolean
+    checklist?: ParsedTaskLine[]
+    tags?: string[]
+    notes?: string
+}
+
+/**
+ * Whether two lists of tag names hold the same tags, in any order.
+ */
+export const sameTags = (a: string[], b: string[]): boolean => {
+    return a.length === b.length && a.every(tag => b.includes(tag));
+}
+
+/**
+ * Whether two states of a task would be written to the notes identically, ignoring emojis.
+ * Tags and notes are only compared if both states have them.
+ */
+const sameTaskState = (a: ComparableTaskState, b: ComparableTaskState): boolean => {
+    return a.text === b.text
+        && a.completed === b.completed
+        && (!a.tags || !b.tags || sameTags(a.tags, b.tags))
+        && (a.notes === undefined || b.notes === undefined || a.notes === b.notes)
+        && sameChecklist(a.checklist || [], b.checklist || []);
+}
+
+/**
+ * Whether two checklists hold the same items, in the same order.
+ */
+const sameChecklist = (a: ParsedTaskLine[], b: ParsedTaskLine[]): boolean => {
+    return a.length === b.length
+        && a.every((item, i) => item.id === b[i].id && item.text === b[i].text && item.completed === b[i].completed);
+}
+
+/**
+ * A task that was changed both in the notes and on Habitica since the last sync.
+ */
+export type TaskConflict = {
+    task: HabiticaTask
+    local: ParsedNoteTask
 }
+
+export type MergeResult = {
+    content: string
+    conflicts: TaskConflict[]
+}
+
+const TASK_SEPARATOR = '---';
+const GROUP_HEADING_PREFIX = '## ';
+
+const isGroupHeading = (line: string): boolean => {
+    return line.startsWith(`${GROUP_HEADING_PREFIX}${CHALLENGE_MARKER}`) || line.startsWith(`${GROUP_HEADING_PREFIX}${GROUP_MARKER}`);
+}
+
+/**
+ * Lays out the tasks of a new note: the user's own tasks first, then those of each challenge and group under its heading.
+ * @param tasks The tasks to write, in Habitica's order.
+ * @param context The user's tag, challenge and group names and day preferences, to render the tasks with.
+ * @returns The note's content.
+ */
+export const noteContentForTasks = (tasks: HabiticaTask[], settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    const sections = new Map<string, string[]>([['', []]]);
+    for (const task of tasks) {
+        const heading = groupHeadingForTask(task, context);
+        sections.set(heading, [...(sections.get(heading) || []), taskToNoteLines(task, settings, context)]);
+    }
+    return [...sections]
+        .filter(([, blocks]) => blocks.length > 0)
+        .map(([heading, blocks]) => (heading ? `${GROUP_HEADING_PREFIX}${heading}\n\n` : '') + blocks.join(`\n\n${TASK_SEPARATOR}\n\n`))
+        .join('\n\n');
+}
+
+/**
+ * Finds the index of the line closing the note's frontmatter.
+ * @returns The index of the closing line, or -1 if the note has no frontmatter.
+ */
+const frontmatterEnd = (lines: string[]): number => {
+    if (lines.length === 0 || lines[0].trim() !== TASK_SEPARATOR) {
+        return -1;
+    }
+    return lines.findIndex((line, i) => i > 0 && line.trim() === TASK_SEPARATOR);
+}
+
+/**
+ * Removes a trailing task separator (and its surrounding blank lines) from the merged lines, if there is one.
+ * @returns Whether a separator was removed.
+ */
+const dropTrailingSeparator = (lines: string[]): boolean => {
+    let end = lines.length;
+    while (end > 0 && isBlankLine(lines[end - 1])) {
+        end--;
+    }
+    if (end === 0 || lines[end - 1].trim() !== TASK_SEPARATOR || end - 1 <= frontmatterEnd(lines)) {
+        return false;
+    }
+    end--;
+    while (end > 0 && isBlankLine(lines[end - 1])) {
+        end--;
+    }
+    lines.length = end;
+    return true;
+}
+
+/**
+ * Replaces the managed block of a single task in a note with its current rendering, leaving the rest of the note as is.
+ * @param content The current content of the note.
+ * @param task The task to re-render.
+ * @returns The updated content; unchanged if the task isn't in the note.
+ */
+export const replaceTaskBlock = (content: string, task: HabiticaTask, settings: HabiticaTaskSettings, context: HabiticaRenderContext): string => {
+    const lines = content.split('\n');
+    const start = lines.findIndex(line => {
+        const parsedLine = parseTaskLine(line, settings);
+        return parsedLine && !parsedLine.indented && parsedLine.id === task.id;
+    });
+    if (start === -1) {
+        return content;
+    }
+    const end = taskBlockEnd(lines, start, settings);
+    lines.splice(start, end - start, ...taskToNoteLines(task, settings, context).split('\n'));
+    return lines.join('\n');
+}
+
+/**
+ * Merges freshly pulled tasks into the existing content of a Habitica note.
+ *
+ * Each task is a managed block: its primary line (identified by block ID) and the notes and checklist lines directly below it.
+ * Everything else in the note is user-authored and left in place.
+ * Blocks unchanged in the notes since the last sync are replaced by the Habitica version,
+ * blocks only changed in the notes are kept, and blocks changed on both sides are conflicts,
+ * settled by `resolutions` (keeping the notes version if unresolved).
+ * Blocks for tasks no longer on Habitica are removed. New tasks are added after the last task of their challenge or group
+ * (under a new heading at the end if there's none yet); the user's own go at the end, or before the first such heading.
+ * @param content The current content of the note.
+ * @param tasks The tasks pulled from Habitica that belong in this note.
+ * @param synced The state of each task as of the last sync, keyed by task ID.
+ * @param context The user's tag names and day preferences, to render the tasks' tags and dates with.
+ * @param resolutions How to settle each conflict, keyed by task ID.
+ * @param reuseUnchanged Whether blocks of tasks unchanged on Habitica since the last pull (by `updatedAt`) and in the notes
+ * are kept as written, rather than rendered again; only safe while the render signature is unchanged.
+ * @returns The merged content and the conflicts encountered.
+ */
+export const mergeNoteContent = (
+    content: string,
+    tasks: HabiticaTask[],
+    synced: Record<string, SyncedTaskState>,
+    settings: HabiticaTaskSettings,
+    context: HabiticaRenderContext,
+    resolutions: Record<string, ConflictResolution> = {},
+    reuseUnchanged = false
+): MergeResult => {
+    const remoteTasks = new Map(tasks.map(task => [task.id, task]));
+    const seen = new Set<string>();
+    const conflicts: TaskConflict[] = [];
+    const merged: string[] = [];
+    const sectionEnds = new Map<string, number>(); // Where the last block of each challenge or group ends in `merged`
+    const lines = content.split('\n');
+    // After removing a block with no separator before it, the separator after it goes too
+    let skipSeparator: 'none' | 'before' | 'after' = 'none';
+    let skippedBlanks: string[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        const block = parseTaskBlock(lines, i, settings);
+        if (!block || !block.task.id || seen.has(block.task.id)) {
+            // User-authored content
+            const line = lines[i++];
+            if (skipSeparator !== 'none' && isBlankLine(line)) {
+                skippedBlanks.push(line);
+                continue;
+            }
+            if (skipSeparator === 'before' && line.trim() === TASK_SEPARATOR) {
+                skipSeparator = 'after';
+                skippedBlanks = [];
+                continue;
+            }
+            if (skipSeparator === 'before') {
+                merged.push(...skippedBlanks);
+            }
+            skipSeparator = 'none';
+            skippedBlanks = [];
+            merged.push(line);
+            continue;
+        }
+        // Managed block: the task line, its notes and its checklist lines
+        const { task: local, end } = block;
+        const id = block.task.id;
+        seen.add(id);
+        const blockLines = lines.slice(i, end);
+        i = end;
+        if (skipSeparator === 'before') {
+            merged.push(...skippedBlanks);
+        }
+        skipSeparator = 'none';
+        skippedBlanks = [];
+
+        const task = remoteTasks.get(id);
+        if (!task) {
+            // No longer on Habitica (deleted, or completed if a todo)
+            if (!dropTrailingSeparator(merged)) {
+                skipSeparator = 'before';
+            }
+            continue;
+        }
+        const remote = snapshotForTask(task, settings, context);
+        const lastSynced = synced[id];
+        const localChanged = lastSynced ? !sameTaskState(local, lastSynced) : false;
+        const remoteChanged = lastSynced ? !sameTaskState(remote, lastSynced) : true;
+        const untouched = reuseUnchanged && !!lastSynced?.updatedAt && lastSynced.updatedAt === task.updatedAt;
+        let keepLocal = (localChanged && !remoteChanged) || (untouched && !localChanged);
+        if (localChanged && remoteChanged && !sameTaskState(local, remote)) {
+            conflicts.push({ task, local });
+            keepLocal = (resolutions[id] || 'local') === 'local';
+        }
+        merged.push(...(keepLocal ? blockLines : taskToNoteLines(task, settings, context).split('\n')));
+        sectionEnds.set(groupHeadingForTask(task, context), merged.length);
+    }
+
+    // Add tasks that aren't in the note yet
+    for (const task of tasks) {
+        if (seen.has(task.id)) {
+            continue;
+        }
+        const heading = groupHeadingForTask(task, context);
+        const blockLines = taskToNoteLines(task, settings, context).split('\n');
+        const firstHeading = merged.findIndex(isGroupHeading);
+        let at = heading || firstHeading !== -1 ? sectionEnds.get(heading) : undefined;
+        let inserted: string[];
+        if (at !== undefined) {
+            inserted = ['', TASK_SEPARATOR, '', ...blockLines];
+        } else if (!heading && firstHeading !== -1) {
+            at = firstHeading;
+            inserted = [...blockLines, ''];
+        } else {
+            while (merged.length > 0 && isBlankLine(merged[merged.length - 1])) {
+                merged.pop();
+            }
+            at = merged.length;
+            const opening = heading ? [`${GROUP_HEADING_PREFIX}${heading}`, ''] : [];
+            inserted = [...(merged.length > 0 ? ['', ...(heading ? [] : [TASK_SEPARATOR, ''])] : []), ...opening, ...blockLines];
+        }
+        merged.splice(at, 0, ...inserted);
+        for (const [key, end] of sectionEnds) {
+            if (end > at) {
+                sectionEnds.set(key, end + inserted.length);
+            }
+        }
+        sectionEnds.set(heading, inserted[inserted.length - 1] === '' ? at + inserted.length - 1 : at + inserted.length);
+    }
+    return {
+        content: merged.join('\n'),
+        conflicts
+    };
+}
+
+/**
+ * The settings archive lines are written and read with: Obsidian Tasks' format, whatever the task line format,
+ * so every archived todo keeps the ✅ completion date that retention goes by.
+ */
+const archiveSettings = (settings: HabiticaTaskSettings): HabiticaTaskSettings => {
+    return { ...settings, taskLinePreset: 'tasks', taskLineTemplate: TaskLinePresets.tasks };
+}
+
+/**
+ * Appends completed todos to an archive note, skipping those already in it.
+ * The archive is only ever appended to, so anything written in it is kept.
+ * @param content The current content of the archive note.
+ * @param tasks The completed todos to archive.
+ * @param context The user's tag names and day preferences, to render the todos' tags and dates with.
+ * @returns The updated content.
+ */
+export const appendArchivedTasks = (
+    content: string,
+    tasks: HabiticaTask[],
+    settings: HabiticaTaskSettings,
+    context: HabiticaRenderContext
+): string => {
+    const lineSettings = archiveSettings(settings);
+    const archived = new Set(parseNoteTasks(content, lineSettings).map(task => task.id));
+    const newLines = tasks
+        .filter(task => !archived.has(task.id))
+        // Oldest first, so the archive reads in order of completion
+        .sort((a, b) => (a.dateCompleted || '').localeCompare(b.dateCompleted || ''))
+        .map(task => taskToNoteLines(task, lineSettings, context));
+    if (newLines.length === 0) {
+        return content;
+    }
+    const trimmed = content.trimEnd();
+    return [...(trimmed ? [trimmed] : []), ...newLines].join('\n') + '\n';
+}
+
+/**
+ * Removes archived todos completed before the cutoff date, along with their notes and checklists.
+ * Lines without a completion date are kept.
+ * @param content The current content of the archive note.
+ * @param cutoff The earliest completion date to keep, as YYYY-MM-DD.
+ * @returns The updated content.
+ */
+export const pruneArchivedTasks = (content: string, cutoff: string, settings: HabiticaTaskSettings): string => {
+    const lineSettings = archiveSettings(settings);
+    const lines = content.split('\n');
+    const kept: string[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const parsedLine = parseTaskLine(lines[i], lineSettings);
+        if (!parsedLine || parsedLine.indented) {
+            kept.push(lines[i++]);
+            continue;
+        }
+        const end = taskBlockEnd(lines, i, lineSettings);
+        const doneDate = parsedLine.fields?.done;
+        if (!doneDate || doneDate >= cutoff) {
+            kept.push(...lines.slice(i, end));
+        }
+        i = end;
+    }
+    return kept.join('\n');
+}
+
+/**
+ * Removes the next occurrence Obsidian Tasks writes next to a recurring task line when completing it.
+ * Habitica repeats dailies itself, so the copy (an unlinked line with the same text and recurrence) would only linger.
+ * @param content The note's content.
+ * @param ids The IDs of the tasks just completed.
+ * @returns The content without the copies.
+ */
+export const dropRecurrenceCopies = (content: string, ids: string[], settings: HabiticaTaskSettings): string => {
+    const lines = content.split('\n');
+    const dropped = new Set<number>();
+    lines.forEach((line, i) => {
+        const parsedLine = parseTaskLine(line, settings);
+        if (!parsedLine?.id || parsedLine.indented || !ids.includes(parsedLine.id) || !parsedLine.fields?.recurrence) {
+            return;
+        }
+        // Tasks writes the copy above the line by default, or below it if configured so
+        const copy = [i - 1, i + 1].find(j => {
+            const other = j >= 0 && j < lines.length ? parseTaskLine(lines[j], settings) : null;
+            return other && !other.id && !other.indented && !other.completed
+                && other.text === parsedLine.text && other.fields?.recurrence === parsedLine.fields?.recurrence;
+        });
+        if (copy !== undefined) {
+            dropped.add(copy);
+        }
+    });
+    return lines.filter((_line, i) => !dropped.has(i)).join('\n');
+}
+
+const TODO_DUE_DATE_REGEX = /📅 *(\d{4}-\d{2}-\d{2})/u;
+const TODO_PRIORITY_REGEX = new RegExp(`(${TASK_PRIORITIES.join('|')})`, 'u');
+
+/**
+ * Builds a new Habitica todo from an arbitrary Obsidian Tasks-style checkbox line.
+ * The 📅 due date and priority emojis are mapped to the todo's `date` and `priority`.
+ * Completed lines and lines that are already linked to a Habitica task are skipped.
+ * @param line The markdown line to convert.
+ * @param day The user's day preferences, to date the todo in their timezone.
+ * @returns The todo to create, or null if the line is not an open, unlinked checkbox line.
+ */
+export const todoFromNoteLine = (line: string, settings: HabiticaTaskSettings, day: HabiticaDayPreferences): Partial<HabiticaTask> | null => {
+    const match = TASK_LINE_REGEX.exec(line);
+    if (!match || match[2] !== ' ' || BLOCK_ID_REGEX.test(match[3])) {
+        return null;
+    }
+    let text = match[3].trim();
+    if (settings.globalTaskTag && text.startsWith(settings.globalTaskTag)) {
+        text = text.slice(settings.globalTaskTag.length);
+    }
+    const todo: Partial<HabiticaTask> = { type: 'todo' };
+    const dueMatch = TODO_DUE_DATE_REGEX.exec(text);
+    if (dueMatch) {
+        todo.date = habiticaDateFor(dueMatch[1], day);
+        text = text.replace(dueMatch[0], '');
+    }
+    const priorityMatch = TODO_PRIORITY_REGEX.exec(text);
+    if (priorityMatch) {
+        todo.priority = EMOJI_TO_PRIORITY[priorityMatch[1] as TaskPriorityEmoji];
+        text = text.replace(priorityMatch[0], '');
+    }
+    todo.text = text.replace(/\s+/g, ' ').trim();
+    if (!todo.text) {
+        return null;
+    }
+    return todo;
+}
+
+/**
+ * Builds a new Habitica todo from a task line carrying the capture tag, anywhere in the vault.
+ * The capture tag is dropped from the todo's text; otherwise the line is read like `todoFromNoteLine` reads it.
+ * @param line The markdown line to convert.
+ * @param captureTag The tag marking the lines to capture, e.g. `#habitica`.
+ * @returns The todo to create, or null if the line is not an open, unlinked checkbox line carrying the tag.
+ */
+export const capturedTodoFromLine = (
+    line: string,
+    captureTag: string,
+    settings: HabiticaTaskSettings,
+    day: HabiticaDayPreferences
+): Partial<HabiticaTask> | null => {
+    const tagRegex = new RegExp(`(^|\\s)${escapeRegExp(captureTag)}(?=\\s|$)`, 'u');
+    if (!tagRegex.test(line)) {
+        return null;
+    }
+    return todoFromNoteLine(line.replace(tagRegex, '$1'), settings, day);
+}
+
+/**
+ * Checks or unchecks the task lines linked to the given tasks, leaving the rest of the content alone.
+ * @param content The note's content.
+ * @param completion Whether each task, by ID, is completed.
+ * @returns The updated content.
+ */
+export const setTaskLineCompletion = (content: string, completion: Record<string, boolean>): string => {
+    return content.split('\n').map(line => {
+        const match = TASK_LINE_REGEX.exec(line);
+        const id = BLOCK_ID_REGEX.exec(line)?.[1];
+        if (!match || !id || !(id in completion)) {
+            return line;
+        }
+        return `${match[1]}- [${completion[id] ? 'x' : ' '}] ${match[3]}`;
+    }).join('\n');
+}
+
+/**
+ * Links a note line to a Habitica task by appending the task's block ID.
+ * @param line The markdown line to link.
+ * @param id The ID of the Habitica task.
+ * @returns The linked line.
+ */
+export const linkNoteLine = (line: string, id: string): string => {
+    return `${line.trimEnd()} ${blockIdFor(id)}`;
+}
\ No newline at end of file
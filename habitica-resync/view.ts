@@ -0,0 +1,215 @@
+import type { WorkspaceLeaf } from 'obsidian';
+import { ItemView, Notice } from 'obsidian';
+import type HabiticaResyncPlugin from '../main';
+import type { HabiticaTask, HabiticaTaskMap, HabiticaUser, ScoreDirection, TaskType } from './types';
+import { ExcludedTaskTypes, TaskTypes } from './types';
+import { formatGold, habitValueIndicator } from './util';
+
+export const VIEW_TYPE_HABITICA_TASKS = 'habitica-tasks-view';
+
+const TAB_LABELS: Record<TaskType, string> = {
+	habit: 'Habits',
+	daily: 'Dailies',
+	todo: 'To-Dos',
+	reward: 'Rewards',
+	completedTodo: 'Completed'
+};
+
+/**
+ * Sidebar pane listing Habitica tasks, for use without any managed `.md` files.
+ */
+export class HabiticaTasksView extends ItemView {
+	plugin: HabiticaResyncPlugin;
+	tasks: HabiticaTaskMap | null = null;
+	user: HabiticaUser | null = null;
+	activeType: TaskType = TaskTypes.habit;
+	error: string | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: HabiticaResyncPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HABITICA_TASKS;
+	}
+
+	getDisplayText(): string {
+		return 'Habitica Tasks';
+	}
+
+	getIcon(): string {
+		return 'swords';
+	}
+
+	async onOpen() {
+		this.addAction('refresh-cw', 'Refresh Habitica tasks', async () => {
+			await this.refresh();
+		});
+		await this.refresh();
+	}
+
+	/**
+	 * Retrieves all tasks from Habitica and re-renders the pane.
+	 */
+	async refresh() {
+		if (!this.plugin.functioning) {
+			this.error = `Not functioning: ${this.plugin.nonFunctionalReason}`;
+			this.render();
+			return;
+		}
+		try {
+			this.tasks = await this.plugin.client.retrieveAllTasks();
+			this.user = await this.plugin.client.retrieveUser();
+			this.error = null;
+		} catch (error) {
+			console.error('Error retrieving Habitica tasks for the pane:', error);
+			this.error = 'Could not retrieve tasks from Habitica. Check the console for more details.';
+		}
+		this.render();
+	}
+
+	render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('habitica-pane');
+
+		if (this.user) {
+			const { stats } = this.user;
+			const statsEl = container.createDiv({ cls: 'habitica-pane-stats' });
+			statsEl.createSpan({ text: `Lv ${stats.lvl} ${stats.class}` });
+			statsEl.createSpan({ text: `❤️ ${Math.round(stats.hp)}/${stats.maxHealth}` });
+			statsEl.createSpan({ text: `💧 ${Math.round(stats.mp)}/${stats.maxMP}` });
+			statsEl.createSpan({ text: `⭐ ${Math.round(stats.exp)}/${stats.toNextLevel}` });
+			statsEl.createSpan({ text: `💰 ${formatGold(stats.gp)}` });
+		}
+
+		const tabsEl = container.createDiv({ cls: 'habitica-pane-tabs' });
+		for (const type of Object.values(TaskTypes)) {
+			if (ExcludedTaskTypes.has(type)) {
+				continue;
+			}
+			const tabEl = tabsEl.createEl('button', { text: TAB_LABELS[type], cls: 'habitica-pane-tab' });
+			if (type === this.activeType) {
+				tabEl.addClass('is-active');
+			}
+			tabEl.addEventListener('click', () => {
+				this.activeType = type;
+				this.render();
+			});
+		}
+
+		if (this.error) {
+			container.createDiv({ text: this.error, cls: 'habitica-pane-message' });
+			return;
+		}
+		if (!this.tasks) {
+			container.createDiv({ text: 'Loading...', cls: 'habitica-pane-message' });
+			return;
+		}
+		const tasks = this.tasks[this.activeType];
+		if (tasks.length === 0) {
+			container.createDiv({ text: `No ${TAB_LABELS[this.activeType].toLowerCase()}.`, cls: 'habitica-pane-message' });
+			return;
+		}
+		const listEl = container.createEl('ul', { cls: 'habitica-pane-list' });
+		for (const task of tasks) {
+			this.renderTask(listEl.createEl('li', { cls: 'habitica-pane-task' }), task);
+		}
+	}
+
+	renderTask(taskEl: HTMLElement, task: HabiticaTask) {
+		const rowEl = taskEl.createDiv({ cls: 'habitica-pane-task-row' });
+		if (task.type === TaskTypes.habit) {
+			if (task.up) {
+				const upEl = rowEl.createEl('button', { text: '+', cls: 'habitica-pane-habit-button' });
+				upEl.addEventListener('click', () => this.scoreTask(task, 'up'));
+			}
+			rowEl.createSpan({ text: habitValueIndicator(task.value), cls: 'habitica-pane-habit-value' });
+			rowEl.createSpan({ text: task.text, cls: 'habitica-pane-task-text' });
+			const counters = [
+				...(task.up ? [`+${task.counterUp || 0}`] : []),
+				...(task.down ? [`-${task.counterDown || 0}`] : [])
+			];
+			rowEl.createSpan({ text: counters.join(' | '), cls: 'habitica-pane-habit-counters' });
+			if (task.down) {
+				const downEl = rowEl.createEl('button', { text: '-', cls: 'habitica-pane-habit-button' });
+				downEl.addEventListener('click', () => this.scoreTask(task, 'down'));
+			}
+			return;
+		}
+		if (task.type === TaskTypes.reward) {
+			rowEl.createSpan({ text: `💰 ${task.value}`, cls: 'habitica-pane-reward-cost' });
+			rowEl.createSpan({ text: task.text, cls: 'habitica-pane-task-text' });
+			const buyEl = rowEl.createEl('button', { text: 'Buy' });
+			if (this.user && this.user.stats.gp < task.value) {
+				buyEl.disabled = true;
+			}
+			buyEl.addEventListener('click', () => this.plugin.buyReward(task.id));
+			return;
+		}
+		const checkboxEl = rowEl.createEl('input', { type: 'checkbox', cls: 'task-list-item-checkbox' });
+		checkboxEl.checked = task.completed || false;
+		checkboxEl.addEventListener('change', () => this.scoreTask(task, checkboxEl.checked ? 'up' : 'down'));
+		rowEl.createSpan({ text: task.text, cls: 'habitica-pane-task-text' });
+		if (task.type === TaskTypes.daily) {
+			if (task.streak) {
+				rowEl.createSpan({ text: `🔥 ${task.streak}`, cls: 'habitica-pane-streak' });
+			}
+			if (!task.isDue) {
+				taskEl.addClass('is-not-due');
+			}
+		}
+
+		if (!task.checklist || task.checklist.length === 0) {
+			return;
+		}
+		if (task.collapseChecklist) {
+			const done = task.checklist.filter(item => item.completed).length;
+			rowEl.createSpan({ text: `📋 ${done}/${task.checklist.length}`, cls: 'habitica-pane-checklist-progress' });
+			return;
+		}
+		const checklistEl = taskEl.createEl('ul', { cls: 'habitica-pane-checklist' });
+		for (const item of task.checklist) {
+			const itemEl = checklistEl.createEl('li');
+			const itemCheckboxEl = itemEl.createEl('input', { type: 'checkbox', cls: 'task-list-item-checkbox' });
+			itemCheckboxEl.checked = item.completed;
+			itemCheckboxEl.addEventListener('change', async () => {
+				try {
+					await this.plugin.client.scoreChecklistItem(task.id, item.id);
+					item.completed = itemCheckboxEl.checked;
+				} catch (error) {
+					console.error('Error scoring Habitica checklist item:', error);
+					new Notice(`Could not update checklist item "${item.text}".`);
+					itemCheckboxEl.checked = item.completed;
+				}
+			});
+			itemEl.createSpan({ text: item.text });
+		}
+	}
+
+	/**
+	 * Scores a task and reflects the result locally, to avoid refetching every task.
+	 */
+	async scoreTask(task: HabiticaTask, direction: ScoreDirection) {
+		try {
+			await this.plugin.client.scoreTask(task.id, direction);
+		} catch (error) {
+			console.error('Error scoring Habitica task:', error);
+			new Notice(`Could not score "${task.text}".`);
+			this.render();
+			return;
+		}
+		if (task.type === TaskTypes.habit) {
+			if (direction === 'up') {
+				task.counterUp = (task.counterUp || 0) + 1;
+			} else {
+				task.counterDown = (task.counterDown || 0) + 1;
+			}
+			new Notice(`Scored "${task.text}" ${direction}.`);
+		} else {
+			task.completed = direction === 'up';
+		}
+		this.render();
+	}
+}
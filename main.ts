@@ -1,317 +1,1763 @@
 import type { App } from 'obsidian';
-import { Notice, Editor, Plugin, PluginSettingTab, Setting, MarkdownView, TFolder } from 'obsidian';
-import type { HabiticaTasksSettings, HabiticaTaskRequest, HabiticaTask, HabiticaResponse, HabiticaTaskMap, TaskType } from './habitica-resync/types';
-import { ExcludedTaskTypes, TaskTypes } from './habitica-resync/types';
-import { organizeHabiticaTasksByType, taskToNoteLines, log } from './habitica-resync/util';
+import type { Debouncer } from 'obsidian';
+import { Notice, Editor, Plugin, PluginSettingTab, Setting, MarkdownView, TFile, TFolder, stringifyYaml, debounce } from 'obsidian';
+import type { HabiticaTasksSettings, HabiticaProfile, HabiticaTask, TaskType, HabiticaSyncState, SyncedTaskState, PendingLink, ConflictResolution, ScoreDirection, HabiticaStats, HabiticaScoreResult, HabiticaTag, HabiticaRenderContext, HabiticaDayPreferences, CompletedTodoArchiveMode, TaskNotesStyle, NoteLayout, TaskLinePreset } from './habitica-resync/types';
+import { ExcludedTaskTypes, TaskTypes, TaskLinePresets, TemplatePlaceholders } from './habitica-resync/types';
+import { HabiticaTasksView, VIEW_TYPE_HABITICA_TASKS } from './habitica-resync/view';
+import { ConflictModal } from './habitica-resync/conflict-modal';
+import { RewardSuggestModal } from './habitica-resync/reward-modal';
+import { PendingChangesModal } from './habitica-resync/pending-modal';
+import { CheckInModal } from './habitica-resync/check-in-modal';
+import { ProfileSuggestModal } from './habitica-resync/profile-modal';
+import { BrokenChallengeModal } from './habitica-resync/broken-challenge-modal';
+import { SyncPreviewModal } from './habitica-resync/sync-preview-modal';
+import { ConfirmModal } from './habitica-resync/confirm-modal';
+import { HabiticaClient, HABITICA_API_URL } from './habitica-resync/client';
+import { validateTemplate } from './habitica-resync/template';
+import type { TaskConflict, ParsedTaskLine, ParsedNoteTask, SyncOperation, SyncHistoryEntry } from './habitica-resync/util';
+import { taskToNoteLines, log, parseNoteTasks, parseTaskLine, mergeNoteContent, replaceTaskBlock, snapshotForTask, todoFromNoteLine, linkNoteLine, formatGold, sanitizeTagName, sameTags, appendArchivedTasks, pruneArchivedTasks, noteNameForTask, frontmatterForTask, priorityFromFields, repeatForRecurrenceRule, dropRecurrenceCopies, capturedTodoFromLine, setTaskLineCompletion, noteContentForTasks, renderSignatureFor, summarizeSync, describeSyncSummary, describePushChanges, diffLines, addSyncHistoryEntry, localDate, habiticaDateFor, HABITICA_URI_ACTION } from './habitica-resync/util';
 
 
 const DEFAULT_SETTINGS: HabiticaTasksSettings = {
+	profiles: [],  // Filled in from the settings below on first load
+	activeProfile: '',
 	userId: '',
+	apiBaseUrl: HABITICA_API_URL,
 	timeOut: 30000,
 	apiKey: '',
 	rateLimitBuffer: 10000, // 10 second buffer
 	habiticaFolderPath: 'HabiticaTasks',
+	tagPrefix: 'habitica/',
 	indentString: '    ',
 	enableNotes: true,
-	enablePane: false
+	enablePane: false,
+	autoSyncInterval: 0,
+	syncOnStartup: false,
+	syncOnFocus: false,
+	completedTodoArchive: 'off',
+	archiveRetentionDays: 0,
+	taskNotesStyle: 'indented',
+	noteLayout: 'aggregated',
+	taskLinePreset: 'tasks',
+	taskLineTemplate: TaskLinePresets.tasks,
+	enableVaultCapture: false,
+	captureTag: '',
+	checkInYesterdailies: true,
+	syncHistoryLength: 50
 }
 
-const HABITICA_SIDE_PLUGIN_ID = 'habitica-x-obsidian-task-integration';
+// A fresh sync state every time, so no profile ever shares its pending writes or captured todos with another
+const defaultSyncState = (): HabiticaSyncState => ({
+	tasks: {},
+	captured: {},
+	pendingOperations: []
+});
+
+// The user's Habitica day until it's known: the device's timezone, with the day starting at midnight
+const defaultDayPreferences = (): HabiticaDayPreferences => ({ dayStart: 0, timezoneOffset: new Date().getTimezoneOffset() });
+
+const DEFAULT_PROFILE_NAME = 'Default';
+
 const PLUGIN_NAME = 'Habitica-Tasks Integration';
-const HABITICA_API_URL = 'https://habitica.com/api';
-const DEVELOPER_USER_ID = 'a8e40d27-c872-493f-acf2-9fe75c56ac0c'  // Itssa me, GammaThought!
+const FOCUS_SYNC_COOLDOWN = 60000; // Don't sync on every focus change; 1 minute between focus syncs
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const MONTHLY_ARCHIVE_REGEX = /^\d{4}-\d{2}\.md$/;
+const ARCHIVE_FOLDER_NAME = 'archive'; // Where notes of tasks gone from Habitica go, in the one-note-per-task layout
+const CAPTURE_DELAY = 5000; // Wait for the user to finish typing a line before capturing it
+const PENDING_RETRY_DELAY = 60000; // How often to retry sending pending changes while Habitica can't be reached
+const SYNC_HISTORY_NOTE_NAME = 'sync-history.md'; // Kept in the Habitica folder
+
+// A note a pull writes: created if it has no file yet, moved if its path changed, archived if its task is gone
+type NotePlan = {
+	path: string
+	file: TFile | null
+	type: TaskType
+	tasks: HabiticaTask[]
+	archive?: boolean
+}
+
+// The key a note is approved by in the sync preview
+const notePlanKey = (note: NotePlan): string => `pull:${note.file?.path ?? note.path}`;
 
 
 /**
- * Interfaces with the Habitica API while respecting rate limits.
+ * Main plugin class for Habitica-Tasks Integration.
+ * 
+ * Handles plugin lifecycle, settings, and UI integration.
  */
-class HabiticaClient {
-	plugin: HabiticaResyncPlugin;
-	remainingRequests: number = 30;
-	nextResetTime: Date | null = null;
-	constructor(plugin: HabiticaResyncPlugin) {
-		// Initialize with settings
-		this.plugin = plugin;
+export default class HabiticaResyncPlugin extends Plugin {
+	settings: HabiticaTasksSettings;
+	client: HabiticaClient;
+	clients = new Map<string, HabiticaClient>(); // Keyed by profile name, so each profile keeps its rate-limit state
+	functioning: boolean = true;
+	nonFunctionalReason: string = '';
+	lastFunctionalNotice: Date | null = null;
+	tasksPlugin: Plugin | null = null;
+	syncState: HabiticaSyncState;
+	profileSyncStates: Record<string, HabiticaSyncState> = {}; // Sync state of the inactive profiles, keyed by profile name
+	syncing = false;
+	syncsStarted = 0; // Counts syncs, so a sync preview can tell whether one ran while it was open
+	lastSyncError: string | null = null;
+	lastSyncSummary: string | null = null; // What the last pull brought in, e.g. "2 added, 1 completed"
+	syncHistory: SyncHistoryEntry | null = null; // The sync in progress, as it'll be recorded in the sync history note
+	statusBarItemEl: HTMLElement | null = null;
+	autoSyncIntervalId: number | null = null;
+	tags: HabiticaTag[] = []; // The user's Habitica tags, as of the last sync
+	groupNames: Record<string, string> = {}; // Names of the challenges and groups tasks come from, keyed by ID, as of the last sync
+	brokenChallengeTaskIds = new Set<string>(); // Those the user was already told about
+	// The user's Habitica day, as of the last sync; the device's timezone until then
+	dayPreferences: HabiticaDayPreferences = defaultDayPreferences();
+	captureDebouncers = new Map<string, Debouncer<[TFile], void>>(); // Keyed by note path
+	captureQueue: Promise<void> = Promise.resolve(); // Captures run one at a time, so no line is captured twice
+	pendingReplayTimeoutId: number | null = null;
+
+	attachRibbonButton() {
+		// This creates an icon in the left ribbon.
+		const ribbonIconEl = this.addRibbonIcon('swords', PLUGIN_NAME, async (_evt: MouseEvent) => {
+			// Called when the user clicks the icon.
+			new Notice(`${PLUGIN_NAME} icon clicked. Syncing tasks...`);
+			await this.syncWithHabitica(true);
+		});
+		// Perform additional things with the ribbon
+		ribbonIconEl.addClass('habitica-task-btn');
+	}
 
+	runOrNotify<T extends (...args: any[]) => any>(fn: T): T {  // Actually fair use of 'any' here
+		const plugin = this;
+		return function(this: any, ...args: Parameters<T>): ReturnType<T> | void {
+			if (!plugin.functioning) {
+				console.warn(`Plugin is not functioning: ${plugin.nonFunctionalReason}`);
+				if (!plugin.lastFunctionalNotice || (new Date().getTime() - plugin.lastFunctionalNotice.getTime()) > 60000) {
+					new Notice(`${PLUGIN_NAME} is not functioning: ${plugin.nonFunctionalReason}\nCheck the console for more details.`);
+					plugin.lastFunctionalNotice = new Date();
+				}
+				return;
+			}
+			return fn.apply(this, args);
+		} as T;
 	}
 
-	settings() {
-		return this.plugin.settings;
+	/**
+	 * Syncs the notes (if enabled) and refreshes any open Habitica panes.
+	 * Local changes are pushed to Habitica first, so they aren't overwritten by the subsequent pull.
+	 * Does nothing if a sync is already in progress.
+	 * A sync limited to the operations approved in the preview leaves archiving and captured tasks, which the preview doesn't show, for a full sync.
+	 * @param notify Whether to show a notice with the outcome, e.g. when the sync was started by the user.
+	 * @param approved The keys of the operations approved in the sync preview, to leave the rest for a later sync; all if omitted.
+	 */
+	async syncWithHabitica(notify = false, approved?: Set<string>) {
+		if (this.syncing) {
+			log('syncWithHabitica: Sync already in progress, skipping.');
+			return;
+		}
+		this.syncing = true;
+		this.syncsStarted++;
+		this.syncHistory = { time: new Date().toISOString(), operations: [], errors: [] };
+		this.updateStatusBar();
+		try {
+			// Changes made while Habitica couldn't be reached go first, so the notes don't revert them
+			const pending = this.client.pendingOperations().length;
+			await this.client.replayPendingOperations();
+			const sent = pending - this.client.pendingOperations().length;
+			if (sent > 0) {
+				this.recordSyncOperation(`Sent ${sent} pending change(s)`);
+			}
+			const user = await this.client.retrieveUser();
+			this.dayPreferences = user.preferences;
+			if (this.settings.enableNotes) {
+				this.tags = await this.client.retrieveTags();
+				const scored = await this.pushChangesToHabitica(approved);
+				await this.retrieveHabiticaNotes({ ...user.stats, ...scored }, approved);
+				if (this.settings.completedTodoArchive !== 'off' && !approved) {
+					await this.archiveCompletedTodos();
+				}
+			}
+			if (this.settings.enableVaultCapture && !approved) {
+				await this.syncCapturedTasks();
+			}
+			await this.refreshPanes();
+			this.lastSyncError = null;
+			this.syncState.lastSyncTime = new Date().toISOString();
+			await this.saveSyncState();
+			if (notify && this.settings.enableNotes && this.lastSyncSummary) {
+				new Notice(`Synced with Habitica: ${this.lastSyncSummary}`);
+			}
+		} catch (error) {
+			console.error('Error syncing with Habitica:', error);
+			this.lastSyncError = error instanceof Error ? error.message : String(error);
+			this.syncHistory?.errors.push(this.lastSyncError);
+			if (notify) {
+				new Notice(`${PLUGIN_NAME} failed to sync: ${this.lastSyncError}`);
+			}
+		} finally {
+			await this.writeSyncHistory();
+			this.syncing = false;
+			this.updateStatusBar();
+		}
 	}
 
 	/**
-	 * Serves as a local router for building Habitica API URLs.
-	 * @param endpoint The API endpoint to access.
-	 * @param version The API version to use.
-	 * @param queryParams The query parameters to include in the URL.
-	 * @returns The constructed API URL.
+	 * Syncs in the background, without notifying the user of failures (the status bar shows them instead).
+	 * Skipped while the plugin isn't functioning.
 	 */
-	buildApiUrl(endpoint: string, version: number = 3, queryParams: Record<string, string> = {}): string {
-		const queryString = new URLSearchParams(queryParams).toString();
-		return `${HABITICA_API_URL}/v${version}/${endpoint}?${queryString}`;
+	async backgroundSync() {
+		if (!this.functioning) {
+			return;
+		}
+		await this.syncWithHabitica();
 	}
 
-	_defaultHeaders() {
-		return {
-			'x-client': `${DEVELOPER_USER_ID}-${HABITICA_SIDE_PLUGIN_ID}`,
-			'x-api-user': `${this.settings().userId}`,
-			'x-api-key': `${this.settings().apiKey}`
-		};
+	/**
+	 * Works out what a sync would push to Habitica and write into the notes, without doing any of it,
+	 * then syncs once the user approves all or some of it.
+	 * Refused while a sync is under way; if one ran (or the profile changed) while the preview was open,
+	 * the approval is refused too, as the plan no longer matches the notes.
+	 */
+	async previewSync() {
+		if (!this.settings.enableNotes) {
+			new Notice('Enable notes to preview what a sync would change in them.');
+			return;
+		}
+		if (this.syncing) {
+			new Notice('Wait for Habitica to finish syncing before previewing a sync.');
+			return;
+		}
+		// Counts as a sync while planning, so no other sync runs in between
+		this.syncing = true;
+		this.updateStatusBar();
+		const syncsStarted = this.syncsStarted;
+		const profile = this.settings.activeProfile;
+		let operations: SyncOperation[];
+		try {
+			this.dayPreferences = (await this.client.retrieveUser()).preferences;
+			this.tags = await this.client.retrieveTags();
+			// Pending writes go first whatever is approved, as any other write would send them anyway
+			const pending = this.client.pendingOperations().map(operation => ({
+				key: `pending:${operation.id}`,
+				description: `Send pending change: ${operation.description}`,
+				diff: [],
+				required: true
+			}));
+			operations = [...pending, ...await this.planPush(), ...await this.planPullOperations()];
+		} catch (error) {
+			console.error('Error previewing Habitica sync:', error);
+			new Notice(`${PLUGIN_NAME} failed to preview the sync: ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		} finally {
+			this.syncing = false;
+			this.updateStatusBar();
+		}
+		if (operations.length === 0) {
+			new Notice('Your notes and Habitica are in sync; there\'s nothing to change.');
+			return;
+		}
+		const approved = await new SyncPreviewModal(this.app, operations).prompt();
+		if (!approved) {
+			return;
+		}
+		if (this.syncing || this.syncsStarted !== syncsStarted || this.settings.activeProfile !== profile) {
+			new Notice('Habitica synced while the preview was open. Preview the sync again to see what\'s left to change.');
+			return;
+		}
+		await this.syncWithHabitica(true, approved);
 	}
-	_defaultJSONHeaders() {
-		return {
-			...this._defaultHeaders(),
-			'Content-Type': 'application/json'
-		};
+
+	/**
+	 * Notes something the sync in progress did, for the sync history.
+	 * @param operation What was done, e.g. 'Pushed "Buy milk": completed'.
+	 */
+	recordSyncOperation(operation: string) {
+		log(`recordSyncOperation: ${operation}`);
+		this.syncHistory?.operations.push(operation);
+	}
+
+	/**
+	 * Adds the sync just run to the sync history note in the Habitica folder, dropping the oldest syncs beyond the history length.
+	 * Failing to write the history doesn't fail the sync.
+	 */
+	async writeSyncHistory() {
+		const entry = this.syncHistory;
+		this.syncHistory = null;
+		const limit = this.settings.syncHistoryLength;
+		const folderPath = this.settings.habiticaFolderPath;
+		if (!entry || limit <= 0 || !this.app.vault.getFolderByPath(folderPath)) {
+			return;
+		}
+		const filePath = `${folderPath}/${SYNC_HISTORY_NOTE_NAME}`;
+		try {
+			const file = this.app.vault.getFileByPath(filePath);
+			if (!file) {
+				await this.app.vault.create(filePath, addSyncHistoryEntry('# Habitica sync history\n', entry, limit));
+			} else {
+				await this.app.vault.process(file, content => addSyncHistoryEntry(content, entry, limit));
+			}
+		} catch (error) {
+			console.error('Error writing the Habitica sync history:', error);
+		}
+	}
+
+	/**
+	 * Sends the changes left pending while Habitica couldn't be reached.
+	 * @param notify Whether to tell the user how it went, e.g. when they asked for it.
+	 */
+	async replayPendingChanges(notify = false) {
+		if (!this.functioning || this.client.pendingOperations().length === 0) {
+			if (notify) {
+				new Notice('No pending Habitica changes.');
+			}
+			return;
+		}
+		const sent = await this.client.replayPendingOperations();
+		if (notify) {
+			new Notice(sent
+				? 'Sent every pending change to Habitica.'
+				: `Couldn't reach Habitica; ${this.client.pendingOperations().length} change(s) still pending.`);
+		}
+	}
+
+	/**
+	 * Retries sending the pending changes once the rate limit resets, or in a minute if Habitica couldn't be reached.
+	 */
+	schedulePendingReplay() {
+		if (this.pendingReplayTimeoutId !== null) {
+			return;
+		}
+		const resetTime = this.client.nextResetTime;
+		const untilReset = resetTime ? resetTime.getTime() - Date.now() + this.settings.rateLimitBuffer : 0;
+		this.pendingReplayTimeoutId = window.setTimeout(() => {
+			this.pendingReplayTimeoutId = null;
+			this.replayPendingChanges();
+		}, Math.max(untilReset, PENDING_RETRY_DELAY));
 	}
 
 	/**
-	 * Calls the provided function when the rate limit allows it.
-	 * If there are remaining requests, it calls the function immediately.
-	 * If there are no remaining requests, it waits until the next reset time plus a buffer before calling the function.
-	 * @param fn The function to call when the rate limit allows it.
-	 * @returns A promise that resolves to the result of the function.
-	 * @throws An error if the function call fails.
-	 */
-	async callWhenRateLimitAllows(fn: () => Promise<Response>): Promise<HabiticaResponse> {
-		// If we have remaining requests, call the function immediately
-		if (this.remainingRequests > 0) {
-			log("callWhenRateLimitAllows: Remaining requests available, calling function immediately.");
-			return fn().then(this._handleResponse.bind(this));
-		}
-		// If we don't have remaining requests, wait until the reset time and resolve then.
-		if (this.nextResetTime && this.nextResetTime > new Date()) {
-			log(`callWhenRateLimitAllows: No remaining requests, waiting until reset time at ${this.nextResetTime.toISOString()} (${this.nextResetTime}).`);
-			const waitTime = this.nextResetTime.getTime() - new Date().getTime();
-			return new Promise<HabiticaResponse>((resolve) => {
-				setTimeout(() => {
-					// Recursively call this function after waiting to ensure rate limit is respected
-					this.callWhenRateLimitAllows(fn).then(resolve);
-				}, waitTime + this.settings().rateLimitBuffer);
+	 * Links the line a todo was made from, once the todo's pending creation went through.
+	 * Lines edited in the meantime are left unlinked, as when the todo is created right away.
+	 * @param link The line to link.
+	 * @param task The created todo.
+	 */
+	async linkCreatedTodo(link: PendingLink, task: HabiticaTask) {
+		const file = this.app.vault.getFileByPath(link.path);
+		let linked = false;
+		if (file) {
+			await this.app.vault.process(file, content => {
+				const lines = content.split('\n');
+				const index = lines.indexOf(link.line);
+				if (index === -1) {
+					return content;
+				}
+				lines[index] = linkNoteLine(link.line, task.id);
+				linked = true;
+				return lines.join('\n');
 			});
 		}
-		log("!!! callWhenRateLimitAllows: No reset time available, calling function immediately.");
-		// If we don't have a reset time, just call the function (shouldn't happen, except maybe on first call)
-		return fn().then(this._handleResponse.bind(this));
+		if (!linked) {
+			new Notice(`Created Habitica todo "${task.text}", but the line changed before it could be linked.`);
+			return;
+		}
+		if (link.capture) {
+			this.syncState.captured[task.id] = { path: link.path, completed: false };
+			await this.saveSyncState();
+		}
+	}
+
+	/**
+	 * Pulls tasks from Habitica into the notes, merging them with what's already there.
+	 * User-authored content between tasks is kept, and tasks changed on both sides since the last sync
+	 * are settled by the user through a conflict modal.
+	 * @param stats The user's current stats, for the rewards note.
+	 * @param approved The keys of the notes approved in the sync preview, to leave the rest unwritten; all if omitted.
+	 */
+	async retrieveHabiticaNotes(stats: Partial<HabiticaStats>, approved?: Set<string>) {
+		this.getOrCreateHabiticaFolder();
+		const { habiticaTasks, syncedTasks, notes } = await this.planPull();
+		const approvedNotes = approved ? notes.filter(note => approved.has(notePlanKey(note))) : notes;
+		for (const note of notes.filter(note => !approvedNotes.includes(note))) {
+			// Tasks left unwritten keep their last synced state, so the next push doesn't take their stale lines for edits
+			for (const task of note.tasks) {
+				if (this.syncState.tasks[task.id]) {
+					syncedTasks[task.id] = this.syncState.tasks[task.id];
+				} else {
+					delete syncedTasks[task.id];
+				}
+			}
+		}
+		// Tasks unchanged since the last pull keep their lines, unless they'd now be rendered differently
+		const renderSignature = renderSignatureFor(this.settings, this.renderContext());
+		const reuse = this.syncState.renderSignature === renderSignature;
+		// Dry run to collect conflicts before writing anything
+		const conflicts: TaskConflict[] = [];
+		for (const { file, tasks, archive } of approvedNotes) {
+			if (file && !archive) {
+				const content = await this.app.vault.read(file);
+				conflicts.push(...mergeNoteContent(content, tasks, this.syncState.tasks, this.settings, this.renderContext(), {}, reuse).conflicts);
+			}
+		}
+		let resolutions: Record<string, ConflictResolution> = {};
+		if (conflicts.length > 0) {
+			resolutions = await new ConflictModal(this.app, conflicts).prompt();
+		}
+		for (const note of approvedNotes) {
+			await this.writePulledNote(note, resolutions, reuse);
+		}
+		await this.summarizePull(syncedTasks);
+		// Remember what Habitica has, so the next push can tell what the user changed
+		this.syncState.tasks = syncedTasks;
+		this.syncState.renderSignature = renderSignature;
+		await this.saveSyncState();
+		this.noticeBrokenChallengeTasks(habiticaTasks);
+		await this.updateStatsInNotes(stats);
 	}
 
 	/**
-	 * Handles the response from the Habitica API.
-	 * @param response The response from the API.
-	 * @returns A promise that resolves to the parsed HabiticaResponse.
-	 * @throws An error if the response is not ok or if the API indicates failure.
+	 * Works out which notes a pull writes, without writing anything.
+	 * @returns The tasks on Habitica, the state of each as pulled (keyed by task ID), and the notes to write.
 	 */
-	async _handleResponse(response: Response): Promise<HabiticaResponse> {
-		// Check response headers for rate limiting info
-		this.remainingRequests = parseInt(response.headers.get('x-ratelimit-remaining') || this.remainingRequests?.toString() || '30');
-		this.nextResetTime = new Date(response.headers.get('x-ratelimit-reset') || this.nextResetTime?.toISOString() || new Date().toISOString());
-		log(`Rate Limit - Remaining: ${this.remainingRequests}, Next Reset Time: ${this.nextResetTime}`);
-		// Check if response is ok & successful
-		if (!response.ok) {
-			throw new Error(`HTTP error (Is Habitica API down?); status: ${response.status}, statusText: ${response.statusText}`);
+	async planPull(): Promise<{ habiticaTasks: HabiticaTask[], syncedTasks: Record<string, SyncedTaskState>, notes: NotePlan[] }> {
+		const folderPath = this.checkHabiticaFolder();
+		const habiticaTasks = await this.client.retrieveAllTasks();
+		await this.retrieveGroupNames(Object.values(habiticaTasks).flat());
+		const syncedTasks: Record<string, SyncedTaskState> = {};
+		const notes: NotePlan[] = [];
+		for (const [type_, tasks] of Object.entries(habiticaTasks)) {
+			// Skip ignored types
+			if (ExcludedTaskTypes.has(type_ as TaskType)) {  // Surprised TypeScript allows this cast
+				continue;
+			}
+			const type = type_ as TaskType;
+			for (const task of tasks) {
+				syncedTasks[task.id] = snapshotForTask(task, this.settings, this.renderContext());
+			}
+			if (this.settings.noteLayout === 'perTask') {
+				notes.push(...this.planPerTaskNotes(type, tasks));
+				continue;
+			}
+			const filePath = `${folderPath}/${type}.md`;
+			const file = this.app.vault.getFileByPath(filePath);
+			if (file || tasks.length > 0) {
+				notes.push({ path: filePath, file, type, tasks });
+			}
 		}
-		// Sneak peek at the response JSON
-		const data = await response.json() as HabiticaResponse;
-		if (!data.success) {
-			throw new Error(`Habitica API error (Was there a Habitica API update?); response: ${JSON.stringify(data)}`);
+		return { habiticaTasks: Object.values(habiticaTasks).flat(), syncedTasks, notes };
+	}
+
+	/**
+	 * Works out what a pull would change in the notes, for the sync preview.
+	 * Tasks edited in the notes show as kept, since they're pushed before the pull.
+	 */
+	async planPullOperations(): Promise<SyncOperation[]> {
+		const { notes } = await this.planPull();
+		const reuse = this.syncState.renderSignature === renderSignatureFor(this.settings, this.renderContext());
+		const operations: SyncOperation[] = [];
+		for (const note of notes) {
+			const key = notePlanKey(note);
+			if (note.archive) {
+				operations.push({ key, description: `Archive ${note.path}`, diff: [] });
+				continue;
+			}
+			if (!note.file) {
+				operations.push({ key, description: `Create ${note.path}`, diff: diffLines('', this.newNoteContent(note)) });
+				continue;
+			}
+			const content = await this.app.vault.read(note.file);
+			const merged = mergeNoteContent(content, note.tasks, this.syncState.tasks, this.settings, this.renderContext(), {}, reuse).content;
+			const moved = note.file.path !== note.path;
+			if (merged !== content || moved) {
+				const description = moved ? `Move ${note.file.path} to ${note.path}` : `Update ${note.path}`;
+				operations.push({ key, description, diff: diffLines(content, merged) });
+			}
 		}
-		return data;
+		return operations;
 	}
 
 	/**
-	 * Retrieves tasks from Habitica API based on the provided context.
-	 * If no context is provided, retrieves all tasks.
-	 * If the request fails, notifies the user and returns an empty array.
-	 * @param ctx The context for retrieving tasks, including type and due date.
-	 * @returns A promise that resolves to an array of HabiticaTask objects.
+	 * Writes a note as planned by `planPull`: creates, moves or archives it, or merges the pulled tasks into it.
+	 * @param note The note.
+	 * @param resolutions How to settle each conflict, keyed by task ID.
+	 * @param reuse Whether tasks unchanged since the last pull keep their lines.
 	 */
-	async retrieveTasks(ctx: HabiticaTaskRequest = {}): Promise<HabiticaTask[]> {
-		// Fetch
-		// Only include keys for non-null/defined parameters
-		const queryParams: Record<string, string> = {
-			...(ctx.type ? { type: ctx.type } : {}),
-			...(ctx.dueDate ? { dueDate: ctx.dueDate.toISOString() } : {})
-		};
-		const url = this.buildApiUrl('tasks/user', 3, queryParams);
-		const headers = this._defaultJSONHeaders();
-		log(`Fetching tasks from Habitica: ${url}`);
-
-		// First retrieve data, then parse response
-		return this.callWhenRateLimitAllows(() =>
-			fetch(url, { method: 'GET', headers })
-		).then((data: HabiticaResponse) => {
-			// Presume failure is caught by _handleResponse
-			return data.data as HabiticaTask[];
+	async writePulledNote(note: NotePlan, resolutions: Record<string, ConflictResolution>, reuse: boolean) {
+		const perTask = this.settings.noteLayout === 'perTask';
+		const { file } = note;
+		if (note.archive && file) {
+			await this.archivePerTaskNote(file, note.type);
+			this.recordSyncOperation(`Archived ${note.path}`);
+			return;
+		}
+		if (!file) {
+			// Notes created earlier in this pull may have taken the planned name
+			const filePath = perTask ? this.perTaskNotePath(note.tasks[0]) : note.path;
+			if (perTask) {
+				await this.ensureFolder(`${this.settings.habiticaFolderPath}/${note.type}`);
+			}
+			await this.app.vault.create(filePath, this.newNoteContent(note));
+			this.recordSyncOperation(`Created ${filePath}`);
+			return;
+		}
+		if (perTask) {
+			const filePath = this.perTaskNotePath(note.tasks[0], file);
+			if (file.path !== filePath) {
+				// Renamed on Habitica; renaming through the file manager keeps links to the note working
+				const previousPath = file.path;
+				await this.app.fileManager.renameFile(file, filePath);
+				this.recordSyncOperation(`Moved ${previousPath} to ${filePath}`);
+			}
+		}
+		const written = await this.processIfChanged(file, content =>
+			mergeNoteContent(content, note.tasks, this.syncState.tasks, this.settings, this.renderContext(), resolutions, reuse).content
+		);
+		if (written) {
+			this.recordSyncOperation(`Updated ${file.path}`);
+		}
+		if (perTask) {
+			await this.updateTaskProperties(file, note.tasks[0]);
+		}
+	}
+
+	/**
+	 * Builds the content of a note the pull creates: the tasks of a type, or a task's note in the one-note-per-task layout.
+	 * @param note The planned note.
+	 */
+	newNoteContent(note: NotePlan): string {
+		if (this.settings.noteLayout !== 'perTask') {
+			return noteContentForTasks(note.tasks, this.settings, this.renderContext());
+		}
+		const [task] = note.tasks;
+		const properties = Object.entries(frontmatterForTask(task, this.settings, this.renderContext()))
+			.filter(([, value]) => value !== undefined);
+		const frontmatter = stringifyYaml(Object.fromEntries(properties));
+		return `---\n${frontmatter}---\n\n${taskToNoteLines(task, this.settings, this.renderContext())}\n`;
+	}
+
+	/**
+	 * Sums up what a pull brought in, compared to the last one, for the status bar and the log.
+	 * Todos gone from Habitica are looked up among the completed todos, to tell completed ones from deleted ones.
+	 * @param syncedTasks The state of each task as pulled, keyed by task ID.
+	 */
+	async summarizePull(syncedTasks: Record<string, SyncedTaskState>) {
+		const goneTodo = Object.values(this.syncState.tasks).some(task => task.type === TaskTypes.todo && !(task.id in syncedTasks));
+		const completedIds = new Set(goneTodo ? (await this.client.retrieveTasks({ type: TaskTypes.completedTodo })).map(task => task.id) : []);
+		const summary = summarizeSync(this.syncState.tasks, syncedTasks, completedIds);
+		this.lastSyncSummary = describeSyncSummary(summary);
+		log(`summarizePull: ${JSON.stringify(summary)}`);
+		for (const kind of ['added', 'changed', 'completed', 'removed'] as const) {
+			if (summary[kind].length > 0) {
+				this.recordSyncOperation(`Pulled ${summary[kind].length} task(s) ${kind} on Habitica: ${summary[kind].map(text => `"${text}"`).join(', ')}`);
+			}
+		}
+	}
+
+	/**
+	 * Rewrites a note, but only if its content actually changes, so unchanged notes keep their modification time
+	 * and don't set off other plugins' file watchers or show up as changed in synced vaults.
+	 * @param file The note.
+	 * @param fn Computes the new content from the current one.
+	 * @returns Whether the note was written.
+	 */
+	async processIfChanged(file: TFile, fn: (content: string) => string): Promise<boolean> {
+		const content = await this.app.vault.read(file);
+		if (fn(content) === content) {
+			return false;
+		}
+		await this.app.vault.process(file, fn);
+		return true;
+	}
+
+	/**
+	 * Sets properties of a note, but only writes the note if one of them actually changes.
+	 * @param file The note.
+	 * @param properties The values to set, keyed by property name.
+	 * @param removeUndefined Whether undefined values remove their property, rather than leaving it alone.
+	 */
+	async setPropertiesIfChanged(file: TFile, properties: Record<string, unknown>, removeUndefined: boolean) {
+		const current = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const changed = Object.entries(properties).some(([key, value]) => value === undefined
+			? removeUndefined && key in current
+			: JSON.stringify(current[key]) !== JSON.stringify(value));
+		if (!changed) {
+			return;
+		}
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			for (const [key, value] of Object.entries(properties)) {
+				if (value !== undefined) {
+					frontmatter[key] = value;
+				} else if (removeUndefined) {
+					delete frontmatter[key];
+				}
+			}
 		});
 	}
 
 	/**
-	 * Utility method to retrieve all tasks organized by type.
-	 * @returns A promise that resolves to a map of tasks organized by type.
+	 * Looks up the names of the challenges and groups the tasks come from, for their section headings.
+	 * Only asks Habitica when a task comes from one it doesn't know yet.
+	 * @param tasks The user's tasks.
 	 */
-	async retrieveAllTasks(): Promise<HabiticaTaskMap> {
-		// Retrieve all tasks of all types
-		const tasks = await this.retrieveTasks();
-		return organizeHabiticaTasksByType(tasks);
+	async retrieveGroupNames(tasks: HabiticaTask[]) {
+		const unknownChallenge = tasks.some(task => task.challenge?.id && !(task.challenge.id in this.groupNames));
+		const unknownGroup = tasks.some(task => task.group?.id && !(task.group.id in this.groupNames));
+		if (unknownChallenge) {
+			for (const challenge of await this.client.retrieveChallenges()) {
+				this.groupNames[challenge.id] = challenge.name;
+			}
+		}
+		if (unknownGroup) {
+			for (const group of await this.client.retrieveGroups()) {
+				this.groupNames[group.id] = group.name;
+			}
+		}
 	}
 
-	// async createTask(task: Partial<HabiticaTask>): Promise<HabiticaTask | null> {
-	// 	// Create a new task in Habitica
-	// 	const url = this.buildApiUrl('tasks/user', 3);
-	// 	const headers = this._defaultJSONHeaders();
-	// 	log(`Creating task in Habitica: ${url}`);
+	/**
+	 * Tells the user about tasks whose challenge broke since they were last told, so they can keep or delete them.
+	 * @param tasks The user's tasks.
+	 */
+	noticeBrokenChallengeTasks(tasks: HabiticaTask[]) {
+		const broken = tasks.filter(task => task.challenge?.broken && !this.brokenChallengeTaskIds.has(task.id));
+		if (broken.length === 0) {
+			return;
+		}
+		for (const task of broken) {
+			this.brokenChallengeTaskIds.add(task.id);
+		}
+		new Notice(`${broken.length} Habitica task(s) no longer follow their challenge. Run "Resolve broken challenge tasks" to keep or delete them.`);
+	}
 
-	// 	return this.callWhenRateLimitAllows(() =>
-	// 		fetch(url, { method: 'POST', headers, body: JSON.stringify(task) })
-	// 	).then((data: HabiticaResponse) => {
-	// 		// Presume failure is caught by _handleResponse
-	// 		return data.data as HabiticaTask;
-	// 	});
-	// }
-}
+	/**
+	 * Asks the user whether to keep or delete each task whose challenge broke, then syncs to reflect their choices.
+	 */
+	async resolveBrokenChallengeTasks() {
+		try {
+			const broken = (await this.client.retrieveTasks()).filter(task => task.challenge?.broken);
+			if (broken.length === 0) {
+				new Notice('No Habitica tasks from broken challenges.');
+				return;
+			}
+			const choices = await new BrokenChallengeModal(this.app, broken).prompt();
+			const settled = broken.filter(task => choices[task.id] === 'keep' || choices[task.id] === 'delete');
+			for (const task of settled) {
+				await this.client.unlinkChallengeTask(task.id, choices[task.id] === 'keep');
+			}
+			if (settled.length > 0) {
+				await this.syncWithHabitica(true);
+			}
+		} catch (error) {
+			console.error('Error resolving broken Habitica challenge tasks:', error);
+			new Notice(`${PLUGIN_NAME} failed to resolve the broken challenge tasks. Check the console for more details.`);
+		}
+	}
 
-/**
- * Main plugin class for Habitica-Tasks Integration.
- * 
- * Handles plugin lifecycle, settings, and UI integration.
- */
-export default class HabiticaResyncPlugin extends Plugin {
-	settings: HabiticaTasksSettings;
-	client: HabiticaClient;
-	functioning: boolean = true;
-	nonFunctionalReason: string = '';
-	lastFunctionalNotice: Date | null = null;
-	tasksPlugin: Plugin | null = null;
+	/**
+	 * Appends todos completed on Habitica to the archive, as a single note or a note per month of completion,
+	 * then drops those older than the retention period.
+	 * Todos are archived with a ✅ completion date, and never rewritten once archived.
+	 */
+	async archiveCompletedTodos() {
+		const folderPath = this.getOrCreateHabiticaFolder();
+		const retentionDays = this.settings.archiveRetentionDays;
+		const cutoff = retentionDays > 0 ? localDate(Date.now() - retentionDays * DAY_IN_MS, this.dayPreferences) : null;
+		const completedTodos = await this.client.retrieveTasks({ type: TaskTypes.completedTodo });
+		const tasksByPath = new Map<string, HabiticaTask[]>();
+		for (const task of completedTodos) {
+			const dateCompleted = task.dateCompleted ? localDate(task.dateCompleted, this.dayPreferences) : null;
+			if (!dateCompleted || (cutoff && dateCompleted < cutoff)) {
+				continue;
+			}
+			const filePath = this.archivePathFor(this.settings.completedTodoArchive, dateCompleted);
+			tasksByPath.set(filePath, [...(tasksByPath.get(filePath) || []), task]);
+		}
+		if (this.settings.completedTodoArchive === 'monthly' && !this.app.vault.getFolderByPath(`${folderPath}/${TaskTypes.completedTodo}`)) {
+			await this.app.vault.createFolder(`${folderPath}/${TaskTypes.completedTodo}`);
+		}
+		for (const [filePath, tasks] of tasksByPath) {
+			const file = this.app.vault.getFileByPath(filePath);
+			if (!file) {
+				await this.app.vault.create(filePath, appendArchivedTasks('', tasks, this.settings, this.renderContext()));
+				this.recordSyncOperation(`Archived completed todos into ${filePath}`);
+				continue;
+			}
+			if (await this.processIfChanged(file, content => appendArchivedTasks(content, tasks, this.settings, this.renderContext()))) {
+				this.recordSyncOperation(`Archived completed todos into ${filePath}`);
+			}
+		}
+		if (cutoff) {
+			await this.pruneArchive(cutoff);
+		}
+	}
 
-	attachRibbonButton() {
-		// This creates an icon in the left ribbon.
-		const ribbonIconEl = this.addRibbonIcon('swords', PLUGIN_NAME, async (_evt: MouseEvent) => {
-			// Called when the user clicks the icon.
-			new Notice(`${PLUGIN_NAME} icon clicked. Retrieving tasks...`);
-			await this.retrieveHabiticaNotes();
+	/**
+	 * Builds the path of the archive note a todo completed on the given date belongs in.
+	 * @param mode How the archive is laid out.
+	 * @param dateCompleted The completion date, as YYYY-MM-DD.
+	 */
+	archivePathFor(mode: CompletedTodoArchiveMode, dateCompleted: string): string {
+		const folderPath = this.settings.habiticaFolderPath;
+		if (mode === 'monthly') {
+			return `${folderPath}/${TaskTypes.completedTodo}/${dateCompleted.slice(0, 7)}.md`;
+		}
+		return `${folderPath}/${TaskTypes.completedTodo}.md`;
+	}
+
+	/**
+	 * Drops archived todos completed before the cutoff date from every archive note.
+	 * Monthly archive notes left empty are moved to the trash.
+	 * @param cutoff The earliest completion date to keep, as YYYY-MM-DD.
+	 */
+	async pruneArchive(cutoff: string) {
+		const folderPath = this.settings.habiticaFolderPath;
+		const singleFile = this.app.vault.getFileByPath(`${folderPath}/${TaskTypes.completedTodo}.md`);
+		if (singleFile) {
+			await this.processIfChanged(singleFile, content => pruneArchivedTasks(content, cutoff, this.settings));
+		}
+		const monthlyFolder = this.app.vault.getFolderByPath(`${folderPath}/${TaskTypes.completedTodo}`);
+		const monthlyFiles = (monthlyFolder?.children || [])
+			.filter((child): child is TFile => child instanceof TFile && MONTHLY_ARCHIVE_REGEX.test(child.name));
+		for (const file of monthlyFiles) {
+			await this.processIfChanged(file, content => pruneArchivedTasks(content, cutoff, this.settings));
+			if ((await this.app.vault.read(file)).trim() === '') {
+				await this.app.fileManager.trashFile(file);
+			}
+		}
+	}
+
+	/**
+	 * Writes the user's stats into the properties of the rewards note, where they sit next to what they can buy.
+	 * @param stats The user's current stats.
+	 */
+	async updateStatsInNotes(stats: Partial<HabiticaStats>) {
+		const filePath = this.getHabiticaFiles()[TaskTypes.reward];
+		const file = filePath ? this.app.vault.getFileByPath(filePath) : null;
+		if (!file) {
+			return;
+		}
+		const properties: Record<string, number | string | undefined> = {
+			hp: stats.hp === undefined ? undefined : Math.round(stats.hp),
+			mp: stats.mp === undefined ? undefined : Math.round(stats.mp),
+			exp: stats.exp === undefined ? undefined : Math.round(stats.exp),
+			gold: stats.gp === undefined ? undefined : Math.floor(stats.gp),
+			level: stats.lvl,
+			class: stats.class
+		};
+		await this.setPropertiesIfChanged(file, properties, false);
+	}
+
+	/**
+	 * Buys a reward, if the user has enough gold, then reports the new balance.
+	 * Failures are reported to the user rather than thrown.
+	 * @param taskId The ID of the reward to buy.
+	 * @param confirm Whether to ask the user first, e.g. when the purchase comes from a link rather than a click in the pane.
+	 */
+	async buyReward(taskId: string, confirm = false) {
+		try {
+			const user = await this.client.retrieveUser();
+			const reward = await this.client.retrieveTask(taskId);
+			if (confirm && !await new ConfirmModal(this.app, 'Buy Habitica reward',
+				`Buy "${reward.text}" for 💰 ${reward.value}? You have ${formatGold(user.stats.gp)} gold.`, 'Buy').prompt()) {
+				return;
+			}
+			await this.buyRewardWithGold(reward, user.stats.gp);
+		} catch (error) {
+			console.error('Error buying Habitica reward:', error);
+			new Notice(`${PLUGIN_NAME} failed to buy the reward. Check the console for more details.`);
+		}
+	}
+
+	/**
+	 * Buys a reward if the given gold covers its cost; errors are thrown.
+	 * @param reward The reward to buy.
+	 * @param gold The user's gold before buying.
+	 */
+	async buyRewardWithGold(reward: HabiticaTask, gold: number) {
+		if (gold < reward.value) {
+			new Notice(`Not enough gold to buy "${reward.text}": it costs ${reward.value}, you have ${formatGold(gold)}.`);
+			return;
+		}
+		const result = await this.client.scoreTask(reward.id, 'up');
+		if (!result) {
+			new Notice(`Couldn't reach Habitica; "${reward.text}" will be bought once it's back.`);
+			return;
+		}
+		const newGold = result.gp ?? gold - reward.value;
+		new Notice(`Bought "${reward.text}". You have ${formatGold(newGold)} gold left.`);
+		if (this.settings.enableNotes) {
+			await this.updateStatsInNotes({ ...result, gp: newGold });
+		}
+		await this.refreshPanes();
+	}
+
+	/**
+	 * Lets the user pick a reward to buy.
+	 */
+	async openRewardShop() {
+		try {
+			const user = await this.client.retrieveUser();
+			const rewards = await this.client.retrieveTasks({ type: TaskTypes.reward });
+			if (rewards.length === 0) {
+				new Notice('You have no Habitica rewards.');
+				return;
+			}
+			new RewardSuggestModal(this.app, rewards, user.stats.gp, async reward => {
+				try {
+					await this.buyRewardWithGold(reward, user.stats.gp);
+				} catch (error) {
+					console.error('Error buying Habitica reward:', error);
+					new Notice(`${PLUGIN_NAME} failed to buy the reward. Check the console for more details.`);
+				}
+			}).open();
+		} catch (error) {
+			console.error('Error retrieving Habitica rewards:', error);
+			new Notice(`${PLUGIN_NAME} failed to retrieve your rewards. Check the console for more details.`);
+		}
+	}
+
+	/**
+	 * Gathers what rendering tasks needs beyond the settings: the names of the user's tags, challenges and groups, and their Habitica day.
+	 */
+	renderContext(): HabiticaRenderContext {
+		return {
+			tagNames: Object.fromEntries(this.tags.map(tag => [tag.id, tag.name])),
+			groupNames: this.groupNames,
+			day: this.dayPreferences
+		};
+	}
+
+	/**
+	 * Offers yesterday's undone dailies for check-in, then starts the user's new Habitica day.
+	 * Only does anything while Habitica waits for the user to start their day, before its cron counts the dailies as missed.
+	 * @param notify Whether to tell the user when there's nothing to check in, e.g. when they asked for it.
+	 */
+	async checkInYesterdailies(notify = false) {
+		if (!this.functioning) {
+			return;
+		}
+		try {
+			const user = await this.client.retrieveUser();
+			this.dayPreferences = user.preferences;
+			if (!user.needsCron) {
+				if (notify) {
+					new Notice('Your Habitica day has already started; there\'s nothing to check in.');
+				}
+				return;
+			}
+			const dailies = (await this.client.retrieveTasks({ type: TaskTypes.daily }))
+				.filter(daily => daily.isDue && !daily.completed && daily.yesterDaily !== false);
+			const done = dailies.length > 0 ? await new CheckInModal(this.app, dailies).prompt() : [];
+			if (!done) {
+				return;
+			}
+			for (const daily of done) {
+				await this.client.scoreTask(daily.id, 'up');
+			}
+			await this.client.runCron();
+			new Notice(done.length > 0 ? `Checked in ${done.length} daily(ies) and started your Habitica day.` : 'Started your Habitica day.');
+			await this.refreshPanes();
+		} catch (error) {
+			console.error('Error checking in yesterday\'s Habitica dailies:', error);
+			new Notice(`${PLUGIN_NAME} failed to check in yesterday's dailies. Check the console for more details.`);
+		}
+	}
+
+	/**
+	 * Finds the Habitica tag an Obsidian tag was written for, creating it on Habitica if there is none.
+	 * @param name The tag name, without the tag prefix.
+	 * @returns The ID of the Habitica tag.
+	 */
+	async resolveTagId(name: string): Promise<string> {
+		const existing = this.tags.find(tag => sanitizeTagName(tag.name) === name);
+		if (existing) {
+			return existing.id;
+		}
+		const tag = await this.client.createTag(name);
+		this.tags.push(tag);
+		return tag.id;
+	}
+
+	/**
+	 * Adds and removes tags on a task to match the tags on its line.
+	 * @param synced The task's last synced state, updated to the new tags.
+	 * @param tags The tag names on the task's line.
+	 */
+	async pushTagChanges(synced: SyncedTaskState, tags: string[]) {
+		const previous = synced.tags || [];
+		for (const name of tags.filter(name => !previous.includes(name))) {
+			await this.client.addTagToTask(synced.id, await this.resolveTagId(name));
+		}
+		for (const name of previous.filter(name => !tags.includes(name))) {
+			const tag = this.tags.find(tag => sanitizeTagName(tag.name) === name);
+			if (tag) {
+				await this.client.removeTagFromTask(synced.id, tag.id);
+			}
+		}
+		synced.tags = tags;
+	}
+
+	/**
+	 * Scores, adds, renames and removes checklist items to match the checklist lines under a task's line.
+	 * Lines are matched to items by their block ID; lines without one are new items.
+	 * @param synced The task's last synced state, updated to the pushed checklist.
+	 * @param checklist The checklist lines under the task's line.
+	 */
+	async pushChecklistChanges(synced: SyncedTaskState, checklist: ParsedTaskLine[]) {
+		const previous = synced.checklist || [];
+		for (const item of checklist) {
+			const id = item.id;
+			const previousItem = id ? previous.find(other => other.id === id) : undefined;
+			if (!id || !previousItem) {
+				// Items pushed before, but not pulled back since, are already on Habitica
+				if (item.text && !previous.some(other => !other.id && other.text === item.text)) {
+					await this.client.addChecklistItem(synced.id, { text: item.text, completed: item.completed });
+				}
+				continue;
+			}
+			if (previousItem.text !== item.text) {
+				await this.client.updateChecklistItem(synced.id, id, { text: item.text });
+			}
+			if (previousItem.completed !== item.completed) {
+				await this.client.scoreChecklistItem(synced.id, id);
+			}
+		}
+		for (const previousItem of previous) {
+			if (previousItem.id && !checklist.some(item => item.id === previousItem.id)) {
+				await this.client.removeChecklistItem(synced.id, previousItem.id);
+			}
+		}
+		synced.checklist = checklist.map(item => ({ ...(item.id ? { id: item.id } : {}), text: item.text, completed: item.completed }));
+	}
+
+	/**
+	 * Pushes edits to a task's priority and dates, e.g. made through Obsidian Tasks' edit modal.
+	 * Only what the line's format shows is compared: the priority, todos' due date, and dailies' start date and recurrence.
+	 * Recurrence rules Habitica can't represent are left alone, as are removed start dates, which dailies can't go without.
+	 * @param synced The task's last synced state, updated to what was pushed.
+	 * @param line The task's parsed line.
+	 */
+	async pushFieldChanges(synced: SyncedTaskState, line: ParsedNoteTask) {
+		const fields = line.fields || {};
+		const changes: Partial<HabiticaTask> = {};
+		const priority = priorityFromFields(fields);
+		if (priority !== undefined && synced.priority !== undefined && priority !== synced.priority) {
+			changes.priority = priority;
+		}
+		if (fields.due !== undefined && synced.due !== undefined && fields.due !== synced.due) {
+			changes.date = fields.due ? habiticaDateFor(fields.due, this.dayPreferences) : null;
+		}
+		if (fields.start && synced.start !== undefined && fields.start !== synced.start) {
+			changes.startDate = habiticaDateFor(fields.start, this.dayPreferences);
+		}
+		if (fields.recurrence !== undefined && synced.recurrence !== undefined && fields.recurrence !== synced.recurrence) {
+			const repeat = repeatForRecurrenceRule(fields.recurrence);
+			if (repeat) {
+				Object.assign(changes, repeat);
+			} else {
+				log(`pushFieldChanges: Habitica can't repeat "${synced.text}" ${fields.recurrence || 'never'}, skipping.`);
+			}
+		}
+		if (Object.keys(changes).length === 0) {
+			return;
+		}
+		if (synced.readOnly) {
+			// The pull that follows puts back Habitica's values, rendering the task again
+			delete synced.updatedAt;
+			new Notice(`Habitica doesn't allow changing the difficulty, dates or repeat of "${synced.text}", which comes from a challenge or group.`);
+			return;
+		}
+		await this.client.updateTask(synced.id, changes);
+		synced.priority = changes.priority ?? synced.priority;
+		synced.due = 'date' in changes ? fields.due : synced.due;
+		synced.start = changes.startDate ? fields.start : synced.start;
+		synced.recurrence = changes.frequency ? fields.recurrence : synced.recurrence;
+	}
+
+	/**
+	 * Scores the tasks whose completion was toggled in a Habitica note right away, rather than at the next sync.
+	 * Used while Obsidian Tasks is installed, whose toggles (made in the note or in a query elsewhere) are written to the note;
+	 * without it, toggles are pushed by the next sync.
+	 * @param file The modified note.
+	 */
+	async pushCompletionChanges(file: TFile) {
+		if (this.syncing || !this.functioning || !this.settings.enableNotes || !file.path.startsWith(`${this.settings.habiticaFolderPath}/`)) {
+			return;
+		}
+		const completed: string[] = [];
+		for (const line of parseNoteTasks(await this.app.vault.read(file), this.settings)) {
+			const synced = line.id ? this.syncState.tasks[line.id] : undefined;
+			if (!synced || (synced.type !== TaskTypes.todo && synced.type !== TaskTypes.daily) || synced.completed === line.completed) {
+				continue;
+			}
+			// Claimed before scoring, so the modify events of further edits don't score the task again
+			synced.completed = line.completed;
+			try {
+				await this.scoreCompletion(synced, line.completed);
+			} catch (error) {
+				console.error('Error scoring Habitica task:', error);
+				new Notice(`${PLUGIN_NAME} failed to score "${synced.text}". It will be retried on the next sync.`);
+				synced.completed = !line.completed;
+				continue;
+			}
+			if (line.completed) {
+				completed.push(synced.id);
+			}
+		}
+		if (completed.length > 0) {
+			await this.app.vault.process(file, content => dropRecurrenceCopies(content, completed, this.settings));
+		}
+		await this.saveSyncState();
+	}
+
+	/**
+	 * The tag marking the task lines to capture from the rest of the vault, if any.
+	 */
+	captureTag(): string {
+		return this.settings.captureTag || this.settings.globalTaskTag || '';
+	}
+
+	/**
+	 * Captures a note once the user has stopped editing it for a while.
+	 * @param file The modified note.
+	 */
+	scheduleCapture(file: TFile) {
+		if (!this.settings.enableVaultCapture || !this.functioning || file.extension !== 'md') {
+			return;
+		}
+		let debouncer = this.captureDebouncers.get(file.path);
+		if (!debouncer) {
+			debouncer = debounce((file: TFile) => {
+				this.captureDebouncers.delete(file.path);
+				this.enqueueCapture(file);
+			}, CAPTURE_DELAY, true);
+			this.captureDebouncers.set(file.path, debouncer);
+		}
+		debouncer(file);
+	}
+
+	/**
+	 * Queues a note to be captured after the captures already queued.
+	 * @param file The note to capture from.
+	 * @returns A promise that resolves once the note has been captured.
+	 */
+	enqueueCapture(file: TFile): Promise<void> {
+		this.captureQueue = this.captureQueue.then(() => this.captureFromFile(file)).catch(error => {
+			console.error(`Error capturing tasks from ${file.path}:`, error);
+		});
+		return this.captureQueue;
+	}
+
+	/**
+	 * Captures the task lines of a note that carry the capture tag: unlinked lines become Habitica todos and are linked to them,
+	 * and completion toggled on captured lines is pushed to Habitica.
+	 * Notes in the Habitica folder are left alone.
+	 * @param file The note to capture from.
+	 */
+	async captureFromFile(file: TFile) {
+		const captureTag = this.captureTag();
+		if (!captureTag || file.path.startsWith(`${this.settings.habiticaFolderPath}/`)) {
+			return;
+		}
+		const created: { line: string, id: string }[] = [];
+		for (const line of (await this.app.vault.read(file)).split('\n')) {
+			const parsedLine = parseTaskLine(line, this.settings);
+			const captured = parsedLine?.id ? this.syncState.captured[parsedLine.id] : undefined;
+			if (parsedLine?.id && captured) {
+				// The line may have been moved from another note
+				captured.path = file.path;
+				if (captured.completed !== parsedLine.completed) {
+					await this.client.scoreTask(parsedLine.id, parsedLine.completed ? 'up' : 'down');
+					captured.completed = parsedLine.completed;
+				}
+				continue;
+			}
+			const todo = capturedTodoFromLine(line, captureTag, this.settings, this.dayPreferences);
+			// Lines whose todo is still pending are linked once it's created
+			if (todo && !this.client.pendingOperations().some(operation => operation.link?.path === file.path && operation.link.line === line)) {
+				const task = await this.client.createTask(todo, { path: file.path, line, capture: true });
+				if (task) {
+					this.syncState.captured[task.id] = { path: file.path, completed: false };
+					created.push({ line, id: task.id });
+				}
+			}
+		}
+		if (created.length > 0) {
+			await this.app.vault.process(file, content => {
+				const lines = content.split('\n');
+				for (const { line, id } of created) {
+					// The line may have been edited while the request was in flight
+					const index = lines.indexOf(line);
+					if (index === -1) {
+						new Notice(`Created a Habitica todo from ${file.basename}, but the line changed before it could be linked.`);
+						continue;
+					}
+					lines[index] = linkNoteLine(line, id);
+				}
+				return lines.join('\n');
+			});
+			log(`captureFromFile: Captured ${created.length} task(s) from ${file.path}.`);
+		}
+		await this.saveSyncState();
+	}
+
+	/**
+	 * Captures the tagged task lines of every note in the vault, e.g. when vault capture is turned on.
+	 * Afterwards, notes are captured as they're edited.
+	 */
+	async captureVault() {
+		const files = this.app.vault.getMarkdownFiles()
+			.filter(file => this.app.metadataCache.getFileCache(file)?.listItems?.some(item => item.task !== undefined));
+		for (const file of files) {
+			await this.enqueueCapture(file);
+		}
+		new Notice(`${PLUGIN_NAME} captured tagged tasks from ${files.length} note(s).`);
+	}
+
+	/**
+	 * Pushes completion toggled on captured lines, then checks or unchecks the lines of todos completed or reopened on Habitica.
+	 * Todos deleted on Habitica (or completed too long ago to be listed) are no longer tracked; their lines are left as they are.
+	 */
+	async syncCapturedTasks() {
+		const captured = this.syncState.captured;
+		for (const path of new Set(Object.values(captured).map(state => state.path))) {
+			const file = this.app.vault.getFileByPath(path);
+			if (file) {
+				await this.enqueueCapture(file);
+			}
+		}
+		if (Object.keys(captured).length === 0) {
+			return;
+		}
+		const open = new Set((await this.client.retrieveTasks({ type: TaskTypes.todo })).map(task => task.id));
+		const completed = new Set((await this.client.retrieveTasks({ type: TaskTypes.completedTodo })).map(task => task.id));
+		const changesByPath = new Map<string, Record<string, boolean>>();
+		for (const [id, state] of Object.entries(captured)) {
+			if (!open.has(id) && !completed.has(id)) {
+				delete captured[id];
+				continue;
+			}
+			if (completed.has(id) !== state.completed) {
+				state.completed = completed.has(id);
+				changesByPath.set(state.path, { ...changesByPath.get(state.path), [id]: state.completed });
+			}
+		}
+		for (const [path, changes] of changesByPath) {
+			const file = this.app.vault.getFileByPath(path);
+			if (file) {
+				await this.app.vault.process(file, content => setTaskLineCompletion(content, changes));
+			}
+		}
+		await this.saveSyncState();
+	}
+
+	/**
+	 * Plans the notes of one task type in the one-note-per-task layout:
+	 * a note for each new task, the notes of tasks renamed on Habitica moved to their new name,
+	 * and the notes of tasks no longer on Habitica archived.
+	 * @param type The task type.
+	 * @param tasks The tasks of that type on Habitica.
+	 */
+	planPerTaskNotes(type: TaskType, tasks: HabiticaTask[]): NotePlan[] {
+		const notes = this.perTaskNotes(type);
+		const plans: NotePlan[] = [];
+		for (const task of tasks) {
+			const file = notes.get(task.id) || null;
+			notes.delete(task.id);
+			plans.push({ path: this.perTaskNotePath(task, file ?? undefined), file, type, tasks: [task] });
+		}
+		// The notes left belong to tasks deleted (or completed, if todos) on Habitica
+		for (const file of notes.values()) {
+			plans.push({ path: file.path, file, type, tasks: [], archive: true });
+		}
+		return plans;
+	}
+
+	/**
+	 * Finds the notes of a task type in the one-note-per-task layout.
+	 * @returns The notes, keyed by the task ID in their properties.
+	 */
+	perTaskNotes(type: TaskType): Map<string, TFile> {
+		const notes = new Map<string, TFile>();
+		const folder = this.app.vault.getFolderByPath(`${this.settings.habiticaFolderPath}/${type}`);
+		for (const child of folder?.children || []) {
+			if (!(child instanceof TFile) || child.extension !== 'md') {
+				continue;
+			}
+			const id = this.app.metadataCache.getFileCache(child)?.frontmatter?.id;
+			if (typeof id === 'string') {
+				notes.set(id, child);
+			}
+		}
+		return notes;
+	}
+
+	/**
+	 * Builds the path of a task's note in the one-note-per-task layout, named after the task's text.
+	 * If another note already has that name, the start of the task ID is added to tell them apart.
+	 * @param task The task.
+	 * @param file The task's current note, if it has one.
+	 */
+	perTaskNotePath(task: HabiticaTask, file?: TFile): string {
+		const folderPath = `${this.settings.habiticaFolderPath}/${task.type}`;
+		const filePath = `${folderPath}/${noteNameForTask(task)}.md`;
+		const existing = this.app.vault.getAbstractFileByPath(filePath);
+		if (!existing || existing === file) {
+			return filePath;
+		}
+		return `${folderPath}/${noteNameForTask(task)} (${task.id.slice(0, 8)}).md`;
+	}
+
+	/**
+	 * Moves the note of a task no longer on Habitica into the archive folder, marking it with the date it was archived.
+	 * @param file The note to archive.
+	 * @param type The type of the note's task.
+	 */
+	async archivePerTaskNote(file: TFile, type: TaskType) {
+		const archiveFolderPath = `${this.settings.habiticaFolderPath}/${ARCHIVE_FOLDER_NAME}/${type}`;
+		await this.ensureFolder(`${this.settings.habiticaFolderPath}/${ARCHIVE_FOLDER_NAME}`);
+		await this.ensureFolder(archiveFolderPath);
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			frontmatter.archived = localDate(Date.now(), this.dayPreferences);
+		});
+		let filePath = `${archiveFolderPath}/${file.name}`;
+		if (this.app.vault.getAbstractFileByPath(filePath)) {
+			filePath = `${archiveFolderPath}/${file.basename} (${Date.now()}).md`;
+		}
+		await this.app.fileManager.renameFile(file, filePath);
+	}
+
+	/**
+	 * Writes a task's properties into its note, removing those that no longer apply.
+	 * Other properties are left alone.
+	 * @param file The task's note.
+	 * @param task The task.
+	 */
+	async updateTaskProperties(file: TFile, task: HabiticaTask) {
+		await this.setPropertiesIfChanged(file, frontmatterForTask(task, this.settings, this.renderContext()), true);
+	}
+
+	/**
+	 * Creates a folder if it doesn't exist yet.
+	 * @param folderPath The path of the folder; its parent must exist.
+	 */
+	async ensureFolder(folderPath: string) {
+		if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+	}
+
+	/**
+	 * Lists the notes holding the tasks of a type: the type's note,
+	 * or the note of each task in the one-note-per-task layout.
+	 * @param type The task type.
+	 */
+	noteFilesFor(type: TaskType): TFile[] {
+		if (this.settings.noteLayout === 'perTask') {
+			return Array.from(this.perTaskNotes(type).values());
+		}
+		const file = this.app.vault.getFileByPath(`${this.settings.habiticaFolderPath}/${type}.md`);
+		return file ? [file] : [];
+	}
+
+	/**
+	 * Finds the note holding a task, if there is one.
+	 * @param task The task.
+	 */
+	noteFileForTask(task: HabiticaTask): TFile | null {
+		if (this.settings.noteLayout === 'perTask') {
+			return this.perTaskNotes(task.type).get(task.id) || null;
+		}
+		return this.app.vault.getFileByPath(`${this.settings.habiticaFolderPath}/${task.type}.md`);
+	}
+
+	/**
+	 * Checks that the Habitica folder path isn't taken by a file, without creating the folder.
+	 * @returns The folder's path.
+	 */
+	checkHabiticaFolder() {
+		const folderPath = this.settings.habiticaFolderPath;
+		const folder = this.app.vault.getAbstractFileByPath(folderPath);
+		if (folder && !(folder instanceof TFolder)) {
+			// If the path exists but is not a folder, throw an error
+			throw new Error(`Path ${folderPath} exists but is not a folder. Please remove or rename the file to restore functionality of this plugin.`);
+		}
+		return folderPath;
+	}
+
+	getOrCreateHabiticaFolder() {
+		const folderPath = this.checkHabiticaFolder();
+		if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+			// If the folder doesn't exist, create it
+			this.app.vault.createFolder(folderPath);
+		}
+		return folderPath;
+	}
+
+	getHabiticaFiles() {
+		const folderPath = this.getOrCreateHabiticaFolder();
+		const habiticaFiles: Record<TaskType, string> = {} as Record<TaskType, string>;
+		for (const type of Object.values(TaskTypes)) {
+			if (ExcludedTaskTypes.has(type)) {
+				continue;
+			}
+			habiticaFiles[type] = `${folderPath}/${type}.md`;
+		}
+		return habiticaFiles;
+	}
+
+	/**
+	 * Compares the task lines in the Habitica notes against the last pulled state,
+	 * scores tasks whose completion was toggled in the notes, and pushes edits to tags, notes and checklists.
+	 * @param approved The keys of the tasks approved in the sync preview, to leave the rest for a later sync; all if omitted.
+	 * @returns The user's stats after the last score, or nothing if nothing was scored.
+	 */
+	async pushChangesToHabitica(approved?: Set<string>): Promise<Partial<HabiticaStats>> {
+		let stats: Partial<HabiticaStats> = {};
+		for (const { synced, line } of await this.matchNoteLines()) {
+			if (approved && !approved.has(`push:${synced.id}`)) {
+				continue;
+			}
+			const changes = describePushChanges(synced, line);
+			// Tags can only be compared once the synced state has them
+			if (line.tags && synced.tags && !sameTags(line.tags, synced.tags)) {
+				await this.pushTagChanges(synced, line.tags);
+			}
+			// Notes can only be compared if they were written at the last pull
+			if (line.notes !== undefined && synced.notes !== undefined && line.notes !== synced.notes) {
+				await this.client.updateTask(synced.id, { notes: line.notes });
+				synced.notes = line.notes;
+			}
+			// Only todos and dailies can be completed or have checklists; habits are scored separately
+			if (synced.type === TaskTypes.todo || synced.type === TaskTypes.daily) {
+				await this.pushFieldChanges(synced, line);
+				if (synced.checklist) {
+					await this.pushChecklistChanges(synced, line.checklist);
+				}
+				if (synced.completed !== line.completed) {
+					stats = { ...stats, ...await this.scoreCompletion(synced, line.completed) };
+					synced.completed = line.completed;
+				}
+			}
+			if (changes.length > 0) {
+				this.recordSyncOperation(`Pushed "${synced.text}": ${changes.join(', ')}`);
+			}
+		}
+		await this.saveSyncState();
+		return stats;
+	}
+
+	/**
+	 * Works out what a push would send to Habitica, for the sync preview.
+	 */
+	async planPush(): Promise<SyncOperation[]> {
+		const operations: SyncOperation[] = [];
+		for (const { synced, line } of await this.matchNoteLines()) {
+			const changes = describePushChanges(synced, line);
+			if (changes.length > 0) {
+				operations.push({ key: `push:${synced.id}`, description: `Push "${synced.text}": ${changes.join(', ')}`, diff: [] });
+			}
+		}
+		return operations;
+	}
+
+	/**
+	 * Matches the task lines in the Habitica notes to the tasks they were last pulled from.
+	 * Lines are matched to tasks by their block ID, falling back to their text for lines without one.
+	 * @returns Each matched line, with its task's last synced state.
+	 */
+	async matchNoteLines(): Promise<{ synced: SyncedTaskState, line: ParsedNoteTask }[]> {
+		const matches: { synced: SyncedTaskState, line: ParsedNoteTask }[] = [];
+		for (const type of Object.values(TaskTypes)) {
+			if (ExcludedTaskTypes.has(type)) {
+				continue;
+			}
+			const lines: ParsedNoteTask[] = [];
+			for (const file of this.noteFilesFor(type)) {
+				lines.push(...parseNoteTasks(await this.app.vault.read(file), this.settings));
+			}
+			const unmatched = Object.values(this.syncState.tasks).filter(task => task.type === type);
+			// Linked lines go first, so unlinked copies of them (e.g. Tasks' next occurrences) can't claim their task by text
+			lines.sort((a, b) => Number(!a.id) - Number(!b.id));
+			for (const line of lines) {
+				const index = line.id
+					? unmatched.findIndex(task => task.id === line.id)
+					: unmatched.findIndex(task => task.text === line.text);
+				if (index === -1) {
+					log(`matchNoteLines: No synced task found for line "${line.text}", skipping.`);
+					continue;
+				}
+				const [synced] = unmatched.splice(index, 1);
+				matches.push({ synced, line });
+			}
+		}
+		return matches;
+	}
+
+	/**
+	 * Scores a todo or daily ticked or unticked in the notes.
+	 * Habitica refuses to complete tasks that need a group manager's approval, asking for the approval instead;
+	 * the task is then shown as pending approval after the next pull.
+	 * @param synced The task's last synced state.
+	 * @param completed Whether the task's line is ticked.
+	 * @returns The user's stats after the score, or null if it's pending or awaits approval.
+	 */
+	async scoreCompletion(synced: SyncedTaskState, completed: boolean): Promise<HabiticaScoreResult | null> {
+		try {
+			return await this.client.scoreTask(synced.id, completed ? 'up' : 'down');
+		} catch (error) {
+			if (!completed || !synced.needsApproval) {
+				throw error;
+			}
+			log(`scoreCompletion: "${synced.text}" needs approval (${error}).`);
+			new Notice(`"${synced.text}" needs approval; your group's managers were asked for it.`);
+			return null;
+		}
+	}
+
+	/**
+	 * Creates Habitica todos from the unlinked checkbox lines in the editor's selection
+	 * (or the cursor's line), then links each line to its new task.
+	 * @param editor The editor to read the lines from.
+	 * @param file The note being edited, to link lines in once their todos are created if Habitica can't be reached.
+	 */
+	async createTodosFromEditor(editor: Editor, file: TFile | null) {
+		const fromLine = editor.getCursor('from').line;
+		const toLine = editor.getCursor('to').line;
+		let created = 0;
+		let pending = 0;
+		for (let lineNo = fromLine; lineNo <= toLine; lineNo++) {
+			const line = editor.getLine(lineNo);
+			const todo = todoFromNoteLine(line, this.settings, this.dayPreferences);
+			if (!todo) {
+				continue;
+			}
+			const task = await this.client.createTask(todo, file ? { path: file.path, line, capture: false } : undefined);
+			if (!task) {
+				pending++;
+				continue;
+			}
+			created++;
+			// The line may have been edited while the request was in flight
+			if (editor.getLine(lineNo) !== line) {
+				new Notice(`Created Habitica todo "${task.text}", but the line changed before it could be linked.`);
+				continue;
+			}
+			editor.setLine(lineNo, linkNoteLine(line, task.id));
+		}
+		if (pending > 0) {
+			new Notice(`Couldn't reach Habitica; ${pending} todo(s) will be created once it's back.`);
+		}
+		if (created > 0 || pending === 0) {
+			new Notice(created > 0 ? `Created ${created} Habitica todo(s).` : 'No unlinked checkbox lines selected.');
+		}
+	}
+
+	/**
+	 * Whether the editor's selection (or the cursor's line) contains a line that can become a Habitica todo.
+	 */
+	selectionHasTodoLines(editor: Editor): boolean {
+		const fromLine = editor.getCursor('from').line;
+		const toLine = editor.getCursor('to').line;
+		for (let lineNo = fromLine; lineNo <= toLine; lineNo++) {
+			if (todoFromNoteLine(editor.getLine(lineNo), this.settings, this.dayPreferences)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Scores a habit on Habitica, then updates its line in the notes (if enabled) and any open panes.
+	 * Failures are reported to the user rather than thrown.
+	 * @param taskId The ID of the habit to score.
+	 * @param direction The direction to score the habit in.
+	 */
+	async scoreHabit(taskId: string, direction: ScoreDirection) {
+		try {
+			await this.client.scoreTask(taskId, direction);
+			const task = await this.client.retrieveTask(taskId);
+			new Notice(`Scored "${task.text}" ${direction === 'up' ? '+' : '-'}.`);
+			if (this.settings.enableNotes) {
+				await this.updateTaskInNotes(task);
+			}
+			await this.refreshPanes();
+		} catch (error) {
+			console.error('Error scoring Habitica habit:', error);
+			new Notice(`${PLUGIN_NAME} failed to score the habit. Check the console for more details.`);
+		}
+	}
+
+	/**
+	 * Re-renders a single task in its Habitica note, without pulling any other task.
+	 * @param task The task as it currently is on Habitica.
+	 */
+	async updateTaskInNotes(task: HabiticaTask) {
+		const file = this.noteFileForTask(task);
+		if (!file) {
+			return;
+		}
+		await this.app.vault.process(file, content => replaceTaskBlock(content, task, this.settings, this.renderContext()));
+		if (this.settings.noteLayout === 'perTask') {
+			await this.updateTaskProperties(file, task);
+		}
+		this.syncState.tasks[task.id] = snapshotForTask(task, this.settings, this.renderContext());
+		await this.saveSyncState();
+	}
+
+	/**
+	 * Finds the habit whose line the editor's cursor is on.
+	 * @returns The ID of the habit, or null if the cursor isn't on a synced habit's line.
+	 */
+	habitAtCursor(editor: Editor): string | null {
+		const parsedLine = parseTaskLine(editor.getLine(editor.getCursor().line), this.settings);
+		if (!parsedLine?.id || this.syncState.tasks[parsedLine.id]?.type !== TaskTypes.habit) {
+			return null;
+		}
+		return parsedLine.id;
+	}
+
+	attachCommands() {
+		for (const direction of ['up', 'down'] as ScoreDirection[]) {
+			this.addCommand({
+				id: `score-habit-${direction}`,
+				name: `Score habit ${direction}`,
+				editorCheckCallback: (checking: boolean, editor: Editor, _view: MarkdownView) => {
+					const habitId = this.habitAtCursor(editor);
+					if (!habitId) {
+						return false;
+					}
+					if (!checking) {
+						this.runOrNotify(() => this.scoreHabit(habitId, direction))();
+					}
+					return true;
+				}
+			});
+		}
+		this.addCommand({
+			id: 'open-habitica-pane',
+			name: 'Open Habitica pane',
+			checkCallback: (checking: boolean) => {
+				if (!this.settings.enablePane) {
+					return false;
+				}
+				if (!checking) {
+					this.activatePane();
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'buy-habitica-reward',
+			name: 'Buy Habitica reward',
+			callback: this.runOrNotify(async () => {
+				await this.openRewardShop();
+			})
+		});
+		this.addCommand({
+			id: 'resolve-broken-challenge-tasks',
+			name: 'Resolve broken challenge tasks',
+			callback: this.runOrNotify(() => this.resolveBrokenChallengeTasks())
+		});
+		this.addCommand({
+			id: 'switch-habitica-profile',
+			name: 'Switch Habitica profile',
+			callback: () => new ProfileSuggestModal(this.app, this.settings.profiles, this.settings.activeProfile,
+				profile => this.switchProfile(profile.name)).open()
+		});
+		this.addCommand({
+			id: 'check-in-yesterdays-dailies',
+			name: 'Check in yesterday\'s dailies',
+			callback: () => this.checkInYesterdailies(true)
+		});
+		this.addCommand({
+			id: 'show-pending-habitica-changes',
+			name: 'Show pending Habitica changes',
+			callback: () => new PendingChangesModal(this.app, this).open()
+		});
+		this.addCommand({
+			id: 'preview-habitica-sync',
+			name: 'Preview sync',
+			callback: this.runOrNotify(() => this.previewSync())
+		});
+		this.addCommand({
+			id: 'capture-habitica-todos',
+			name: 'Capture tagged tasks from the whole vault',
+			checkCallback: (checking: boolean) => {
+				if (!this.settings.enableVaultCapture || !this.captureTag()) {
+					return false;
+				}
+				if (!checking) {
+					this.runOrNotify(() => this.captureVault())();
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'create-habitica-todos',
+			name: 'Create Habitica todos from selected lines',
+			editorCallback: this.runOrNotify(async (editor: Editor, view: MarkdownView) => {
+				await this.createTodosFromEditor(editor, view.file);
+			})
 		});
-		// Perform additional things with the ribbon
-		ribbonIconEl.addClass('habitica-task-btn');
 	}
 
-	runOrNotify<T extends (...args: any[]) => any>(fn: T): T {  // Actually fair use of 'any' here
-		const plugin = this;
-		return function(this: any, ...args: Parameters<T>): ReturnType<T> | void {
-			if (!plugin.functioning) {
-				console.warn(`Plugin is not functioning: ${plugin.nonFunctionalReason}`);
-				if (!plugin.lastFunctionalNotice || (new Date().getTime() - plugin.lastFunctionalNotice.getTime()) > 60000) {
-					new Notice(`${PLUGIN_NAME} is not functioning: ${plugin.nonFunctionalReason}\nCheck the console for more details.`);
-					plugin.lastFunctionalNotice = new Date();
-				}
+	attachEditorMenu() {
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, view) => {
+			if (!this.selectionHasTodoLines(editor)) {
 				return;
 			}
-			return fn.apply(this, args);
-		} as T;
+			menu.addItem(item => item
+				.setTitle('Create Habitica todo(s)')
+				.setIcon('swords')
+				.onClick(this.runOrNotify(async () => {
+					await this.createTodosFromEditor(editor, view.file);
+				})));
+		}));
 	}
 
-	async retrieveHabiticaNotes() {
-		const folderPath = this.getOrCreateHabiticaFolder();
-		// Create files
-		const habiticaTasks = await this.client.retrieveAllTasks();
-		for (const [type_, tasks] of Object.entries(habiticaTasks)) {
-			// Skip ignored types
-			if (tasks.length === 0 || ExcludedTaskTypes.has(type_ as TaskType)) {  // Surprised TypeScript allows this cast
-				continue;
-			}
-			const fileName = `${type_}.md`;
-			const filePath = `${folderPath}/${fileName}`;
-			const file = this.app.vault.getFileByPath(filePath);
-			if (!file) {
-				// Create new file
-				await this.app.vault.create(filePath, tasks.map(task => taskToNoteLines(task, this.settings)).join('\n\n---\n\n'));
+	attachProtocolHandler() {
+		// Handles the controls rendered by `habitLineForTask` and `rewardLineForTask`
+		this.registerObsidianProtocolHandler(HABITICA_URI_ACTION, this.runOrNotify(async (params) => {
+			if (params.action === 'score' && params.id && (params.direction === 'up' || params.direction === 'down')) {
+				await this.scoreHabit(params.id, params.direction);
+			} else if (params.action === 'buy' && params.id) {
+				// Any link can open the URI, including ones from outside Obsidian, so spending gold is confirmed first
+				await this.buyReward(params.id, true);
 			} else {
-				// Overwrite existing file
-				await this.app.vault.process(file, _ => tasks.map(task => taskToNoteLines(task, this.settings)).join('\n\n---\n\n'));
+				console.warn(`Unknown ${HABITICA_URI_ACTION} URI:`, params);
 			}
-		}
+		}));
 	}
 
-	getOrCreateHabiticaFolder() {
-		const folderPath = this.settings.habiticaFolderPath;
-		let folder = this.app.vault.getAbstractFileByPath(folderPath);
-		if (folder && !(folder instanceof TFolder)) {
-			// If the path exists but is not a folder, throw an error
-			throw new Error(`Path ${folderPath} exists but is not a folder. Please remove or rename the file to restore functionality of this plugin.`);
-		}
-		if (!folder) {
-			// If the folder doesn't exist, create it
-			this.app.vault.createFolder(folderPath);
-		}
-		return folderPath;
+	attachPane() {
+		this.registerView(VIEW_TYPE_HABITICA_TASKS, leaf => new HabiticaTasksView(leaf, this));
+		this.app.workspace.onLayoutReady(() => this.updatePane());
 	}
 
-	getHabiticaFiles() {
-		const folderPath = this.getOrCreateHabiticaFolder();
-		const habiticaFiles: Record<TaskType, string> = {} as Record<TaskType, string>;
-		for (const type of Object.values(TaskTypes)) {
-			if (ExcludedTaskTypes.has(type)) {
-				continue;
+	/**
+	 * Opens the Habitica pane in the right sidebar, or reveals it if it's already open.
+	 */
+	async activatePane() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_HABITICA_TASKS)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
 			}
-			habiticaFiles[type] = `${folderPath}/${type}.md`;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_HABITICA_TASKS, active: true });
 		}
-		return habiticaFiles;
+		await workspace.revealLeaf(leaf);
 	}
 
-	async pushChangesToHabitica() {
-		// Implementation for pushing changes to Habitica
-		const habiticaFiles = this.getHabiticaFiles();
-		for (const [type, filePath] of Object.entries(habiticaFiles)) {
-			const file = this.app.vault.getFileByPath(filePath);
-			if (file) {
-				const content = await this.app.vault.read(file);
-				// Push content to Habitica
+	/**
+	 * Re-retrieves the tasks shown in any open Habitica panes.
+	 */
+	async refreshPanes() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_HABITICA_TASKS)) {
+			if (leaf.view instanceof HabiticaTasksView) {
+				await leaf.view.refresh();
 			}
 		}
 	}
 
-	attachCommands() {
-		// This adds a simple command that can be triggered anywhere
-		this.addCommand({
-			id: 'open-sample-modal-simple',
-			name: 'Open sample modal (simple)',
-			callback: this.runOrNotify(() => {
-				// new SampleModal(this.app).open();
-			})
-		});
-		// This adds an editor command that can perform some operation on the current editor instance
-		this.addCommand({
-			id: 'sample-editor-command',
-			name: 'Sample editor command',
-			editorCallback: this.runOrNotify((editor: Editor, _view: MarkdownView) => {
-				log(editor.getSelection());
-				editor.replaceSelection('Sample Editor Command');
-			})
-		});
-		// This adds a complex command that can check whether the current state of the app allows execution of the command
-		this.addCommand({
-			id: 'open-sample-modal-complex',
-			name: 'Open sample modal (complex)',
-			checkCallback: this.runOrNotify((checking: boolean) => {
-				// Conditions to check
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					// If checking is true, we're simply "checking" if the command can be run.
-					// If checking is false, then we want to actually perform the operation.
-					if (!checking) {
-						// new SampleModal(this.app).open();
-					}
-
-					// This command will only show up in Command Palette when the check function returns true
-					return true;
-				}
-			})
-		});
+	/**
+	 * Opens or closes the Habitica pane according to the "Enable Pane" setting.
+	 */
+	async updatePane() {
+		if (this.settings.enablePane) {
+			if (this.app.workspace.getLeavesOfType(VIEW_TYPE_HABITICA_TASKS).length === 0) {
+				await this.activatePane();
+			}
+		} else {
+			this.app.workspace.detachLeavesOfType(VIEW_TYPE_HABITICA_TASKS);
+		}
 	}
 
 	attachStatusBar() {
 		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('Status Bar Text');
+		this.statusBarItemEl = this.addStatusBarItem();
+		this.statusBarItemEl.addClass('mod-clickable');
+		this.registerDomEvent(this.statusBarItemEl, 'click', this.runOrNotify(async () => {
+			await this.syncWithHabitica(true);
+		}));
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Reflects the sync state and the rate-limit budget in the status bar.
+	 */
+	updateStatusBar() {
+		if (!this.statusBarItemEl) {
+			return;
+		}
+		let text: string;
+		const details: string[] = [];
+		// Name the profile once there's more than one
+		const label = this.settings.profiles.length > 1 ? `Habitica (${this.settings.activeProfile})` : 'Habitica';
+		if (this.syncing) {
+			text = `${label}: syncing...`;
+		} else if (this.lastSyncError) {
+			text = `${label}: sync failed`;
+			details.push(`Error: ${this.lastSyncError}`);
+		} else if (this.syncState.lastSyncTime) {
+			text = `${label}: synced ${new Date(this.syncState.lastSyncTime).toLocaleTimeString()}`;
+		} else {
+			text = `${label}: not synced`;
+		}
+		const pending = this.syncState.pendingOperations.length;
+		if (pending > 0) {
+			text += ` (${pending} pending)`;
+			details.push(`${pending} change(s) waiting to be sent to Habitica`);
+		}
+		if (this.client) {
+			if (this.client.remainingRequests > 0) {
+				details.push(`${this.client.remainingRequests} requests left`);
+			} else if (this.client.nextResetTime) {
+				text += ' (rate limited)';
+				details.push(`Rate limited until ${this.client.nextResetTime.toLocaleTimeString()}`);
+			}
+		}
+		if (this.syncState.lastSyncTime) {
+			details.push(`Last sync: ${new Date(this.syncState.lastSyncTime).toLocaleString()}`
+				+ (this.lastSyncSummary ? ` (${this.lastSyncSummary})` : ''));
+		}
+		details.push('Click to sync now');
+		this.statusBarItemEl.setText(text);
+		this.statusBarItemEl.setAttr('aria-label', details.join('\n'));
+		this.statusBarItemEl.setAttr('data-tooltip-position', 'top');
+	}
+
+	/**
+	 * (Re)starts the auto-sync timer according to the "Auto-sync interval" setting.
+	 */
+	scheduleAutoSync() {
+		if (this.autoSyncIntervalId !== null) {
+			window.clearInterval(this.autoSyncIntervalId);
+			this.autoSyncIntervalId = null;
+		}
+		if (this.settings.autoSyncInterval > 0) {
+			this.autoSyncIntervalId = window.setInterval(() => this.backgroundSync(), this.settings.autoSyncInterval * 60 * 1000);
+			this.registerInterval(this.autoSyncIntervalId);
+		}
+	}
+
+	attachAutoSync() {
+		this.scheduleAutoSync();
+		this.app.workspace.onLayoutReady(async () => {
+			// Checking in first, so the startup sync sees the new day
+			if (this.settings.checkInYesterdailies) {
+				await this.checkInYesterdailies();
+			}
+			if (this.settings.syncOnStartup) {
+				this.backgroundSync();
+			}
+		});
+		this.registerDomEvent(window, 'focus', () => {
+			if (!this.settings.syncOnFocus) {
+				return;
+			}
+			const lastSyncTime = this.syncState.lastSyncTime ? new Date(this.syncState.lastSyncTime).getTime() : 0;
+			if (new Date().getTime() - lastSyncTime > FOCUS_SYNC_COOLDOWN) {
+				this.backgroundSync();
+			}
+		});
 	}
 
 	/**
@@ -322,7 +1768,7 @@ export default class HabiticaResyncPlugin extends Plugin {
 	 * Throws an error if `this.app.plugins` cannot be accessed.
 	 */
 	detectTasksPlugin() {
-		this.app.workspace.onLayoutReady(() => {
+		this.app.workspace.onLayoutReady(async () => {
 			// Access plugins manager via type assertion since it's not in the public API
 			try {
 				this.tasksPlugin = (this.app as any).plugins.getPlugin('obsidian-tasks-plugin');
@@ -330,22 +1776,88 @@ export default class HabiticaResyncPlugin extends Plugin {
 				console.error('Error accessing plugins manager to detect Tasks plugin:', error);
 				this.tasksPlugin = null;
 			}
+			if (this.tasksPlugin) {
+				await this.adoptTasksGlobalFilter();
+			}
 		});
 	}
 
+	/**
+	 * Uses the Tasks plugin's global filter as the global task tag, so Tasks picks up the Habitica task lines.
+	 * Only done while the active profile has no global task tag, so one set in the settings is kept.
+	 */
+	async adoptTasksGlobalFilter() {
+		if (!this.tasksPlugin || this.settings.globalTaskTag) {
+			return;
+		}
+		try {
+			const tasksSettings = await this.tasksPlugin.loadData();
+			const globalFilter = typeof tasksSettings?.globalFilter === 'string' ? tasksSettings.globalFilter.trim() : '';
+			if (globalFilter) {
+				log(`adoptTasksGlobalFilter: Using the Tasks global filter "${globalFilter}" as the global task tag.`);
+				this.settings.globalTaskTag = globalFilter;
+				await this.saveSettings();
+			}
+		} catch (error) {
+			console.error('Error reading the Tasks plugin settings:', error);
+		}
+	}
+
+	attachPendingReplay() {
+		this.app.workspace.onLayoutReady(() => this.replayPendingChanges());
+		this.registerDomEvent(window, 'online', () => this.replayPendingChanges());
+	}
+
+	attachVaultCapture() {
+		this.registerEvent(this.app.vault.on('modify', file => {
+			if (file instanceof TFile) {
+				this.scheduleCapture(file);
+			}
+		}));
+		this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+			const moved = Object.values(this.syncState.captured).filter(state => state.path === oldPath);
+			for (const state of moved) {
+				state.path = file.path;
+			}
+			if (moved.length > 0) {
+				await this.saveSyncState();
+			}
+		}));
+	}
+
+	attachTasksIntegration() {
+		this.registerEvent(this.app.vault.on('modify', file => {
+			if (this.tasksPlugin && file instanceof TFile) {
+				this.pushCompletionChanges(file);
+			}
+		}));
+	}
+
 
 	async onload() {
 		await this.loadSettings();
+		this.client = this.clientFor(this.settings.activeProfile);
 		this.attachRibbonButton();
 		this.attachStatusBar();
 		this.attachCommands();
+		this.attachEditorMenu();
+		this.attachPane();
+		this.attachProtocolHandler();
+		this.attachAutoSync();
+		this.attachTasksIntegration();
+		this.attachVaultCapture();
+		this.attachPendingReplay();
 		this.addSettingTab(new HabiticaResyncSettingTab(this.app, this));
 		this.detectTasksPlugin();
-		this.client = new HabiticaClient(this);
 	}
 
 	onunload() {
-
+		if (this.pendingReplayTimeoutId !== null) {
+			window.clearTimeout(this.pendingReplayTimeoutId);
+		}
+		for (const client of this.clients.values()) {
+			client.cancelAll();
+		}
 	}
 
 	determineFunctionality() {
@@ -361,20 +1873,178 @@ export default class HabiticaResyncPlugin extends Plugin {
 		if (this.settings.enableNotes && (!this.settings.habiticaFolderPath || this.settings.habiticaFolderPath.trim() === '')) {
 			reasons.push('Missing Habitica Folder Path in settings, required for the notes feature');
 		}
+		// Profiles sharing a folder would write their tasks over each other
+		const sharing = this.settings.profiles.find(profile =>
+			profile.name !== this.settings.activeProfile && profile.habiticaFolderPath === this.settings.habiticaFolderPath);
+		if (this.settings.enableNotes && sharing) {
+			reasons.push(`Habitica Folder Path is also used by profile "${sharing.name}"`);
+		}
 		this.functioning = reasons.length === 0;
 		this.nonFunctionalReason = reasons.join('; ');
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Sync state is stored alongside the settings, but kept out of them
+		const { syncState, profileSyncStates, ...settings } = (await this.loadData()) || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.syncState = Object.assign(defaultSyncState(), syncState);
+		this.profileSyncStates = profileSyncStates || {};
+		// Settings from before profiles become the first profile
+		if (this.settings.profiles.length === 0) {
+			this.settings.activeProfile = DEFAULT_PROFILE_NAME;
+			this.settings.profiles = [{ name: DEFAULT_PROFILE_NAME, ...this.profileFields() }];
+		}
 		this.determineFunctionality();
 	}
 
+	async saveSyncState() {
+		await this.saveData(this.pluginData());
+	}
+
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.saveData(this.pluginData());
 		this.determineFunctionality();
 		this.getOrCreateHabiticaFolder();
 	}
+
+	/**
+	 * Gathers everything stored in the plugin data.
+	 */
+	pluginData() {
+		this.storeActiveProfile();
+		return { ...this.settings, syncState: this.syncState, profileSyncStates: this.profileSyncStates };
+	}
+
+	/**
+	 * Stores the settings in use back into the active profile.
+	 */
+	storeActiveProfile() {
+		const active = this.settings.profiles.find(profile => profile.name === this.settings.activeProfile);
+		if (active) {
+			Object.assign(active, this.profileFields());
+		}
+	}
+
+	/**
+	 * The settings kept per profile, as currently in use.
+	 */
+	profileFields(): Omit<HabiticaProfile, 'name'> {
+		const { userId, apiKey, habiticaFolderPath, globalTaskTag } = this.settings;
+		return { userId, apiKey, habiticaFolderPath, globalTaskTag };
+	}
+
+	/**
+	 * Gets the client of a profile, creating it on first use.
+	 * @param name The profile's name.
+	 */
+	clientFor(name: string): HabiticaClient {
+		let client = this.clients.get(name);
+		if (!client) {
+			client = new HabiticaClient(this);
+			this.clients.set(name, client);
+		}
+		return client;
+	}
+
+	/**
+	 * Switches to another profile: its account, folder and global tag, its sync state and its client.
+	 * What's known of the previous account (tags, groups, day preferences) is forgotten until the next sync.
+	 * Only the active profile syncs; the changes still pending for the others are sent once they're active again.
+	 * Refused while a sync or a write is under way, so nothing lands in the wrong profile.
+	 * @param name The name of the profile to switch to.
+	 */
+	async switchProfile(name: string) {
+		const profile = this.settings.profiles.find(profile => profile.name === name);
+		if (!profile || name === this.settings.activeProfile) {
+			return;
+		}
+		if (this.syncing || this.client.inFlight.size > 0) {
+			new Notice('Wait for Habitica to finish syncing before switching profiles.');
+			return;
+		}
+		this.client.cancelAll();
+		for (const debouncer of this.captureDebouncers.values()) {
+			debouncer.cancel();
+		}
+		this.captureDebouncers.clear();
+		this.storeActiveProfile();
+		this.profileSyncStates[this.settings.activeProfile] = this.syncState;
+		this.syncState = this.profileSyncStates[name] ?? defaultSyncState();
+		delete this.profileSyncStates[name];
+		const { userId, apiKey, habiticaFolderPath, globalTaskTag } = profile;
+		Object.assign(this.settings, { userId, apiKey, habiticaFolderPath, globalTaskTag, activeProfile: name });
+		this.client = this.clientFor(name);
+		this.tags = [];
+		this.groupNames = {};
+		this.dayPreferences = defaultDayPreferences();
+		this.brokenChallengeTaskIds.clear();
+		this.lastSyncError = null;
+		this.lastSyncSummary = null;
+		await this.saveSettings();
+		this.updateStatusBar();
+		await this.refreshPanes();
+		new Notice(`Switched to Habitica profile "${name}".`);
+	}
+
+	/**
+	 * Adds a profile with no account yet, and switches to it.
+	 */
+	async addProfile() {
+		let number = this.settings.profiles.length + 1;
+		while (this.settings.profiles.some(profile => profile.name === `Profile ${number}`)) {
+			number++;
+		}
+		const name = `Profile ${number}`;
+		this.settings.profiles.push({ name, userId: '', apiKey: '', habiticaFolderPath: `${DEFAULT_SETTINGS.habiticaFolderPath} ${number}` });
+		await this.switchProfile(name);
+	}
+
+	/**
+	 * Removes the active profile, along with its sync state and pending changes, and switches to another one,
+	 * once the user confirms (warned of any changes that would never reach Habitica).
+	 * Its notes are left in the vault. The last profile can't be removed.
+	 */
+	async removeActiveProfile() {
+		const removed = this.settings.activeProfile;
+		const next = this.settings.profiles.find(profile => profile.name !== removed);
+		if (!next) {
+			return;
+		}
+		const pending = this.client.pendingOperations().length;
+		const warning = pending > 0 ? ` Its ${pending} pending change(s) will be discarded without reaching Habitica.` : '';
+		if (!await new ConfirmModal(this.app, 'Remove Habitica profile',
+			`Remove the profile "${removed}" and its sync state? Its notes stay in the vault.${warning}`, 'Remove').prompt()) {
+			return;
+		}
+		await this.switchProfile(next.name);
+		if (this.settings.activeProfile === removed) {
+			return;
+		}
+		this.settings.profiles = this.settings.profiles.filter(profile => profile.name !== removed);
+		delete this.profileSyncStates[removed];
+		this.clients.get(removed)?.cancelAll();
+		this.clients.delete(removed);
+		await this.saveSettings();
+	}
+
+	/**
+	 * Renames the active profile.
+	 * @param name The new name, which no other profile may have.
+	 * @returns Whether the profile was renamed.
+	 */
+	async renameActiveProfile(name: string): Promise<boolean> {
+		const active = this.settings.profiles.find(profile => profile.name === this.settings.activeProfile);
+		if (!active || name === '' || this.settings.profiles.some(profile => profile !== active && profile.name === name)) {
+			return false;
+		}
+		this.clients.delete(active.name);
+		this.clients.set(name, this.client);
+		active.name = name;
+		this.settings.activeProfile = name;
+		await this.saveSettings();
+		this.updateStatusBar();
+		return true;
+	}
 }
 
 class HabiticaResyncSettingTab extends PluginSettingTab {
@@ -390,6 +2060,58 @@ class HabiticaResyncSettingTab extends PluginSettingTab {
 
 		containerEl.empty();
 
+		new Setting(containerEl)
+			.setName('Profile')
+			.setDesc('Choose the Habitica account to sync; the settings down to Global Task Tag are kept per profile')
+			.addDropdown(dropdown => {
+				for (const profile of this.plugin.settings.profiles) {
+					dropdown.addOption(profile.name, profile.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.activeProfile)
+					.onChange(async (value) => {
+						await this.plugin.switchProfile(value);
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.onClick(async () => {
+					await this.plugin.addProfile();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Remove profile')
+				.setWarning()
+				.setDisabled(this.plugin.settings.profiles.length < 2)
+				.onClick(async () => {
+					await this.plugin.removeActiveProfile();
+					this.display();
+				}));
+		new Setting(containerEl)
+			.setName('Profile Name')
+			.setDesc('Enter a name for this profile')
+			.addText(text => {
+				text
+					.setPlaceholder('Enter profile name')
+					.setValue(this.plugin.settings.activeProfile);
+				// Renamed once the name is entered, rather than through every name typed on the way
+				text.inputEl.addEventListener('blur', async () => {
+					const name = text.getValue().trim();
+					if (name === this.plugin.settings.activeProfile) {
+						return;
+					}
+					if (!await this.plugin.renameActiveProfile(name)) {
+						new Notice('Please enter a name no other profile has.');
+						text.setValue(this.plugin.settings.activeProfile);
+					}
+				});
+				text.inputEl.addEventListener('keydown', event => {
+					if (event.key === 'Enter') {
+						text.inputEl.blur();
+					}
+				});
+			});
 		new Setting(containerEl)
 			.setName('User ID')
 			.setDesc('Enter your Habitica User ID')
@@ -410,6 +2132,17 @@ class HabiticaResyncSettingTab extends PluginSettingTab {
 					this.plugin.settings.apiKey = value;
 					await this.plugin.saveSettings();
 				}));
+		new Setting(containerEl)
+			.setName('API Base URL')
+			.setDesc('Enter the base URL of the Habitica API; only change this for self-hosted Habitica instances')
+			.addText(text => text
+				.setPlaceholder(HABITICA_API_URL)
+				.setValue(this.plugin.settings.apiBaseUrl)
+				.onChange(async (value) => {
+					value = value.trim();
+					this.plugin.settings.apiBaseUrl = (value === '' ? HABITICA_API_URL : value);
+					await this.plugin.saveSettings();
+				}));
 		new Setting(containerEl)
 			.setName('Timeout')  // Minimum value is 30000
 			.setDesc('Enter timeout in milliseconds')
@@ -452,7 +2185,7 @@ class HabiticaResyncSettingTab extends PluginSettingTab {
 				}));
 		new Setting(containerEl)
 			.setName('Global Task Tag')
-			.setDesc('Enter a global tag to be added to all Habitica tasks (optional)\nIf using Obsidian Tasks plugin, this should match the "Global task filter" setting.')
+			.setDesc('Enter a global tag to be added to all Habitica tasks (optional)\nIf using Obsidian Tasks plugin, this is set from its "Global task filter" setting when Obsidian starts.')
 			.addText(text => text
 				.setPlaceholder('Enter global task tag')
 				.setValue(this.plugin.settings.globalTaskTag || '')
@@ -461,6 +2194,47 @@ class HabiticaResyncSettingTab extends PluginSettingTab {
 					this.plugin.settings.globalTaskTag = (value === '' ? undefined : value);
 					await this.plugin.saveSettings();
 				}));
+		new Setting(containerEl)
+			.setName('Enable Vault Capture')
+			.setDesc('Turn task lines carrying the capture tag anywhere in the vault into Habitica todos, and keep their completion in sync')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableVaultCapture)
+				.onChange(async (value) => {
+					this.plugin.settings.enableVaultCapture = value;
+					await this.plugin.saveSettings();
+					if (value && this.plugin.functioning && this.plugin.captureTag()) {
+						await this.plugin.captureVault();
+					}
+				}));
+		new Setting(containerEl)
+			.setName('Capture Tag')
+			.setDesc('Enter the tag marking the task lines to capture, e.g. #habitica (leave empty to use the global task tag)')
+			.addText(text => text
+				.setPlaceholder('Enter capture tag')
+				.setValue(this.plugin.settings.captureTag)
+				.onChange(async (value) => {
+					this.plugin.settings.captureTag = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Check In Yesterday\'s Dailies')
+			.setDesc('Enable asking, when Obsidian starts on a new Habitica day, which of yesterday\'s undone dailies you did before Habitica counts them as missed')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.checkInYesterdailies)
+				.onChange(async (value) => {
+					this.plugin.settings.checkInYesterdailies = value;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Tag Prefix')
+			.setDesc('Enter the prefix for the Obsidian tags that Habitica tags are written as, e.g. "habitica/" writes the tag "Work" as #habitica/Work (leave empty for plain #Work)')
+			.addText(text => text
+				.setPlaceholder('Enter tag prefix')
+				.setValue(this.plugin.settings.tagPrefix)
+				.onChange(async (value) => {
+					this.plugin.settings.tagPrefix = value.trim().replace(/^#/, '');
+					await this.plugin.saveSettings();
+				}));
 		new Setting(containerEl)
 			.setName('Enable Notes')
 			.setDesc('Enable creating and syncing notes for Habitica tasks')
@@ -478,6 +2252,135 @@ class HabiticaResyncSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.enablePane = value;
 					await this.plugin.saveSettings();
+					await this.plugin.updatePane();
+				}));
+		new Setting(containerEl)
+			.setName('Auto-sync Interval')  // Minimum value is 0
+			.setDesc('Enter how often to sync with Habitica in the background, in minutes (0 to disable)')
+			.addText(text => text
+				.setPlaceholder('Enter interval in minutes')
+				.setValue(this.plugin.settings.autoSyncInterval.toString())
+				.onChange(async (value) => {
+					const intValue = parseInt(value);
+					if (!isNaN(intValue) && intValue >= 0) {
+						this.plugin.settings.autoSyncInterval = intValue;
+						await this.plugin.saveSettings();
+						this.plugin.scheduleAutoSync();
+					} else {
+						new Notice('Please enter a valid number greater than or equal to 0.');
+					}
+				}));
+		new Setting(containerEl)
+			.setName('Sync on Startup')
+			.setDesc('Sync with Habitica when Obsidian starts')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncOnStartup)
+				.onChange(async (value) => {
+					this.plugin.settings.syncOnStartup = value;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Sync on Focus')
+			.setDesc('Sync with Habitica when the Obsidian window regains focus (at most once a minute)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncOnFocus)
+				.onChange(async (value) => {
+					this.plugin.settings.syncOnFocus = value;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Note Layout')
+			.setDesc('Write tasks into a note per task type, or into a note per task (with the task\'s properties) in a folder per type')
+			.addDropdown(dropdown => dropdown
+				.addOption('aggregated', 'Note per type')
+				.addOption('perTask', 'Note per task')
+				.setValue(this.plugin.settings.noteLayout)
+				.onChange(async (value) => {
+					this.plugin.settings.noteLayout = value as NoteLayout;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Task Notes')
+			.setDesc('Write the notes of each Habitica task under its line, as indented text or in a collapsed callout; edits are synced back to Habitica')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('indented', 'Indented text')
+				.addOption('callout', 'Callout')
+				.setValue(this.plugin.settings.taskNotesStyle)
+				.onChange(async (value) => {
+					this.plugin.settings.taskNotesStyle = value as TaskNotesStyle;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Task Line Format')
+			.setDesc('Write task properties as Obsidian Tasks emojis, Dataview inline fields or plain text, or with your own template')
+			.addDropdown(dropdown => dropdown
+				.addOption('tasks', 'Tasks emojis')
+				.addOption('dataview', 'Dataview fields')
+				.addOption('plain', 'Plain text')
+				.addOption('custom', 'Custom template')
+				.setValue(this.plugin.settings.taskLinePreset)
+				.onChange(async (value) => {
+					this.plugin.settings.taskLinePreset = value as TaskLinePreset;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Task Line Template')
+			.setDesc(`Enter the template for task lines with the custom format. Placeholders: ${TemplatePlaceholders.map(name => `{{${name}}}`).join(', ')}; wrap text in {{#name}}...{{/name}} to only write it when name has a value`)
+			.addTextArea(text => text
+				.setPlaceholder('Enter task line template')
+				.setValue(this.plugin.settings.taskLineTemplate)
+				.onChange(async (value) => {
+					const problem = validateTemplate(value, TemplatePlaceholders)
+						?? (value.includes('{{text}}') ? null : 'it must include {{text}}');
+					if (!problem) {
+						this.plugin.settings.taskLineTemplate = value;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice(`Invalid task line template: ${problem}.`);
+					}
+				}));
+		new Setting(containerEl)
+			.setName('Completed Todo Archive')
+			.setDesc('Archive todos completed on Habitica into the Habitica folder, as a single note or a note per month (requires notes)')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('single', 'Single note')
+				.addOption('monthly', 'Note per month')
+				.setValue(this.plugin.settings.completedTodoArchive)
+				.onChange(async (value) => {
+					this.plugin.settings.completedTodoArchive = value as CompletedTodoArchiveMode;
+					await this.plugin.saveSettings();
+				}));
+		new Setting(containerEl)
+			.setName('Archive Retention')  // Minimum value is 0
+			.setDesc('Enter how many days to keep completed todos in the archive (0 to keep them forever)')
+			.addText(text => text
+				.setPlaceholder('Enter retention in days')
+				.setValue(this.plugin.settings.archiveRetentionDays.toString())
+				.onChange(async (value) => {
+					const intValue = parseInt(value);
+					if (!isNaN(intValue) && intValue >= 0) {
+						this.plugin.settings.archiveRetentionDays = intValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number greater than or equal to 0.');
+					}
+				}));
+		new Setting(containerEl)
+			.setName('Sync History Length')  // Minimum value is 0
+			.setDesc('Enter how many syncs to keep in the sync-history note of the Habitica folder (0 to keep no history)')
+			.addText(text => text
+				.setPlaceholder('Enter number of syncs')
+				.setValue(this.plugin.settings.syncHistoryLength.toString())
+				.onChange(async (value) => {
+					const intValue = parseInt(value);
+					if (!isNaN(intValue) && intValue >= 0) {
+						this.plugin.settings.syncHistoryLength = intValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number greater than or equal to 0.');
+					}
 				}));
 		new Setting(containerEl)
 			.setName('Indent String')
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Dates depend on the timezone, so tests run in one with DST changes, whatever the machine's
+process.env.TZ = "America/New_York";
+
+export default defineConfig({
+	test: {
+		include: ["habitica-resync/**/*.test.ts"],
+	},
+});